@@ -13,31 +13,65 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useAuth } from '@/lib/auth';
-import { Redirect } from 'expo-router';
+import { useConnection } from '@/lib/connection';
+import { Href, Redirect, router, useLocalSearchParams } from 'expo-router';
+
+function resolveReturnTo(value: string | string[] | undefined) {
+  const target = Array.isArray(value) ? value[0] : value;
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.includes('login')) {
+    return '/(tabs)/files';
+  }
+  return target;
+}
 
 export default function LoginScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const { signIn, devMode, isAuthenticated } = useAuth();
+  const { signIn, devMode, isAuthenticated, sessionExpired } = useAuth();
+  const { returnTo, mode } = useLocalSearchParams<{ returnTo?: string; mode?: string }>();
+  const { baseUrl, probeServer, setBaseUrl } = useConnection();
+  // "add" keeps the form open while signed in so another server or account can be saved.
+  const addingProfile = mode === 'add';
+  const [serverUrl, setServerUrl] = useState(addingProfile ? '' : baseUrl);
   const [user, setUser] = useState('');
   const [pass, setPass] = useState('');
+  const [remember, setRemember] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [added, setAdded] = useState(false);
 
   const handleSubmit = async () => {
     setError('');
     setLoading(true);
-    const result = await signIn(user.trim(), pass);
+    let targetUrl = baseUrl;
+    if (addingProfile || serverUrl.trim() !== baseUrl) {
+      // Probe without switching so the current profile stays usable if this fails.
+      const probe = await probeServer(serverUrl);
+      if (!probe.ok) {
+        setLoading(false);
+        setError(probe.error);
+        return;
+      }
+      setServerUrl(probe.baseUrl);
+      if (probe.devMode && !addingProfile) {
+        await setBaseUrl(probe.baseUrl);
+        setLoading(false);
+        return;
+      }
+      targetUrl = probe.baseUrl;
+    }
+    const result = await signIn(user.trim(), pass, { remember, baseUrl: targetUrl });
     setLoading(false);
     if (!result.ok) {
       setError(result.error || 'Login failed');
     } else {
       setPass('');
+      setAdded(true);
     }
   };
 
-  if (devMode || isAuthenticated) {
-    return <Redirect href="/(tabs)/files" />;
+  if ((devMode || isAuthenticated) && (!addingProfile || added)) {
+    return <Redirect href={resolveReturnTo(returnTo) as Href} />;
   }
 
   const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
@@ -53,8 +87,27 @@ export default function LoginScreen() {
         <View style={[styles.card, { backgroundColor: cardBackground }]}>
           <View style={styles.brand}>
             <Text style={[styles.brandTitle, { color: palette.text }]}>Local Cloud</Text>
-            <Text style={styles.brandSubtitle}>Sign in to your personal server</Text>
+            <Text style={styles.brandSubtitle}>
+              {addingProfile ? 'Add another server or account' : 'Sign in to your personal server'}
+            </Text>
           </View>
+          {sessionExpired ? (
+            <View style={styles.banner}>
+              <Text style={styles.bannerText}>
+                Your session expired. Sign in again to pick up where you left off.
+              </Text>
+            </View>
+          ) : null}
+          <TextInput
+            value={serverUrl}
+            onChangeText={setServerUrl}
+            placeholder="Server URL (http://192.168.1.10:4170)"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={[styles.input, { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder }]}
+            placeholderTextColor="#8A8F98"
+          />
           <TextInput
             value={user}
             onChangeText={setUser}
@@ -72,6 +125,21 @@ export default function LoginScreen() {
             style={[styles.input, { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder }]}
             placeholderTextColor="#8A8F98"
           />
+          <Pressable style={styles.rememberRow} onPress={() => setRemember(!remember)}>
+            <View
+              style={[
+                styles.checkbox,
+                { borderColor: inputBorder },
+                remember && { backgroundColor: palette.tint, borderColor: palette.tint },
+              ]}
+            />
+            <View style={styles.rememberText}>
+              <Text style={[styles.rememberTitle, { color: palette.text }]}>Stay signed in</Text>
+              <Text style={styles.rememberHint}>
+                Saves your credentials on this device to renew the session automatically.
+              </Text>
+            </View>
+          </Pressable>
           <Pressable style={[styles.button, { backgroundColor: palette.tint }]} onPress={handleSubmit}>
             {loading ? (
               <ActivityIndicator color="#fff" />
@@ -79,6 +147,11 @@ export default function LoginScreen() {
               <Text style={styles.buttonText}>Sign In</Text>
             )}
           </Pressable>
+          {addingProfile && (
+            <Pressable style={styles.cancel} onPress={() => router.back()}>
+              <Text style={[styles.cancelText, { color: palette.tint }]}>Cancel</Text>
+            </Pressable>
+          )}
           {Boolean(error) && <Text style={styles.error}>{error}</Text>}
           {devMode && (
             <Text style={styles.devNote}>Dev mode is enabled on the server.</Text>
@@ -123,6 +196,18 @@ const styles = StyleSheet.create({
     color: '#6B717C',
     fontSize: 14,
   },
+  banner: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+    backgroundColor: 'rgba(192, 61, 61, 0.12)',
+  },
+  bannerText: {
+    color: '#C03D3D',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   input: {
     borderWidth: 1,
     borderColor: '#E1E4EA',
@@ -133,6 +218,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#F9FAFB',
   },
+  rememberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 2,
+  },
+  rememberText: {
+    flex: 1,
+  },
+  rememberTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rememberHint: {
+    marginTop: 2,
+    color: '#6B717C',
+    fontSize: 12,
+  },
   button: {
     marginTop: 4,
     paddingVertical: 14,
@@ -144,6 +253,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  cancel: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   error: {
     marginTop: 12,
     color: '#C03D3D',
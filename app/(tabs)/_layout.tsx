@@ -1,9 +1,10 @@
 import React from 'react';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import { Tabs } from 'expo-router';
+import { Redirect, Tabs, usePathname } from 'expo-router';
 
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
+import { useAuth } from '@/lib/auth';
 
 // You can explore the built-in icon families and icons on the web at https://icons.expo.fyi/
 function TabBarIcon(props: {
@@ -15,9 +16,25 @@ function TabBarIcon(props: {
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const pathname = usePathname();
+  const { ready, isAuthenticated, sessionExpired, activeProfile } = useAuth();
 
+  if (ready && !isAuthenticated) {
+    // Remember where an expired session left the user so login can send them back.
+    return (
+      <Redirect
+        href={{
+          pathname: '/(auth)/login',
+          params: sessionExpired ? { returnTo: pathname } : {},
+        }}
+      />
+    );
+  }
+
+  // Keyed by profile so every tab starts fresh after switching server or account.
   return (
     <Tabs
+      key={activeProfile?.id || 'default'}
       screenOptions={{
         tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
         headerShown: false,
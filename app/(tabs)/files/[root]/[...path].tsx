@@ -0,0 +1,1194 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  BackHandler,
+  FlatList,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Redirect, router, useFocusEffect, useLocalSearchParams, useNavigation } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import * as DocumentPicker from 'expo-document-picker';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { useApi, useLatestRequest } from '@/lib/api';
+import { ApiResult, isAbortedError } from '@/lib/apiClient';
+import { useAuth } from '@/lib/auth';
+import { shareEntries, useDownloads } from '@/lib/downloads';
+import { Entry, EntryActionItem } from '@/lib/endpoints';
+import { folderHref, parentPath, pathFromParam, pathSegments } from '@/lib/filesRoute';
+import { formatBytes } from '@/lib/format';
+import { useServer } from '@/lib/server';
+import { usePlayer } from '@/lib/player';
+import { UploadConflictPolicy, useUploads } from '@/lib/uploads';
+import PhotoViewerModal from '@/components/PhotoViewerModal';
+import FileActionSheet, { FileAction } from '@/components/FileActionSheet';
+import FolderPickerModal from '@/components/FolderPickerModal';
+import NamePromptModal from '@/components/NamePromptModal';
+import UploadProgressList from '@/components/UploadProgressList';
+
+const PAGE_LIMIT = 50;
+const ACTION_BATCH_SIZE = 100;
+
+// Folder screens can be remounted (deep links, replaced history), so offsets are
+// kept outside the component to restore the position within a session.
+const scrollOffsets = new Map<string, number>();
+
+type NamePrompt = { kind: 'rename'; entry: Entry } | { kind: 'newFolder' };
+type TransferRequest = { kind: 'move' | 'copy'; entries: Entry[] };
+
+function validateEntryName(name: string) {
+  if (!name) {
+    return 'Enter a name.';
+  }
+  if (name === '.' || name === '..' || /[\\/]/.test(name)) {
+    return 'Names cannot contain slashes or be "." or "..".';
+  }
+  return '';
+}
+
+function joinPath(dir: string, name: string) {
+  return dir ? `${dir}/${name}` : name;
+}
+
+// Large selections go to the server in fixed-size batches; a failed batch marks
+// only its own paths as failed so the rest still go through.
+async function runBatched(
+  paths: string[],
+  call: (batch: string[]) => Promise<ApiResult<EntryActionItem[]>>
+) {
+  const results: EntryActionItem[] = [];
+  for (let index = 0; index < paths.length; index += ACTION_BATCH_SIZE) {
+    const batch = paths.slice(index, index + ACTION_BATCH_SIZE);
+    const result = await call(batch);
+    if (result.ok) {
+      results.push(...result.data);
+    } else {
+      const message = result.error?.message || 'Request failed';
+      results.push(...batch.map((path) => ({ path, ok: false, error: { message } })));
+    }
+  }
+  return results;
+}
+
+function summarizeFailures(items: EntryActionItem[]) {
+  return items
+    .filter((item) => !item.ok)
+    .map((item) => `${item.path}: ${item.error?.message || 'Failed'}`)
+    .join('\n');
+}
+
+export default function FilesScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { api, authHeaders } = useApi();
+  const { playTrack, setPlayerOpen } = usePlayer();
+  const downloads = useDownloads();
+  const uploads = useUploads();
+  const { activeProfile } = useAuth();
+  const { roots, refresh } = useServer();
+  const navigation = useNavigation();
+  const params = useLocalSearchParams<{ root: string; path?: string | string[] }>();
+  const rootId = params.root || '';
+  const path = useMemo(() => pathFromParam(params.path), [params.path]);
+  const scrollKey = `${rootId}:${path}`;
+  const listRef = useRef<FlatList<Entry>>(null);
+  const restoredScrollRef = useRef(false);
+  const [items, setItems] = useState<Entry[]>([]);
+  const [listOffset, setListOffset] = useState(0);
+  const [listHasMore, setListHasMore] = useState(false);
+  const [listLoadingMore, setListLoadingMore] = useState(false);
+  const [listTotal, setListTotal] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Entry[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchOffset, setSearchOffset] = useState(0);
+  const [searchHasMore, setSearchHasMore] = useState(true);
+  const [searchLoadingMore, setSearchLoadingMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+  const [mediaIndex, setMediaIndex] = useState<number | null>(null);
+  const [actionEntry, setActionEntry] = useState<Entry | null>(null);
+  const [namePrompt, setNamePrompt] = useState<NamePrompt | null>(null);
+  const [promptBusy, setPromptBusy] = useState(false);
+  const [promptError, setPromptError] = useState('');
+  const [transfer, setTransfer] = useState<TransferRequest | null>(null);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selected, setSelected] = useState<Record<string, Entry>>({});
+  const [batchBusy, setBatchBusy] = useState(false);
+  const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const chipBackground = colorScheme === 'dark' ? '#1F232B' : '#E9EDF5';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+  const inputBackground = colorScheme === 'dark' ? '#12161C' : '#FFFFFF';
+  const inputBorder = colorScheme === 'dark' ? '#252A33' : '#E3E7EF';
+  const isSearchMode = Boolean(searchQuery.trim());
+  const listItems = useMemo(
+    () => (isSearchMode ? searchResults : items),
+    [isSearchMode, searchResults, items]
+  );
+  const mediaItems = useMemo(
+    () =>
+      listItems.filter(
+        (entry) => entry.mime?.startsWith('image/') || entry.mime?.startsWith('video/')
+      ),
+    [listItems]
+  );
+  const audioItems = useMemo(
+    () => listItems.filter((entry) => entry.mime?.startsWith('audio/')),
+    [listItems]
+  );
+
+  const activeRoot = useMemo(
+    () => roots.find((root) => root.id === rootId) || null,
+    [roots, rootId]
+  );
+  const breadcrumbs = useMemo(() => {
+    const segments = pathSegments(path);
+    return segments.map((name, index) => ({
+      name,
+      path: segments.slice(0, index + 1).join('/'),
+    }));
+  }, [path]);
+
+  const folderUploads = useMemo(
+    () =>
+      uploads.jobs.filter(
+        (job) =>
+          job.owner === (activeProfile?.id || null) && job.rootId === rootId && job.basePath === path
+      ),
+    [uploads.jobs, activeProfile?.id, rootId, path]
+  );
+  const uploadedHere = folderUploads.filter((job) => job.status === 'done').length;
+
+  const beginListRequest = useLatestRequest([activeRoot?.id, path]);
+  const beginSearchRequest = useLatestRequest([searchQuery, activeRoot?.id]);
+
+  const loadList = async ({ reset = true } = {}) => {
+    if (!activeRoot) {
+      return;
+    }
+    if (reset) {
+      setLoading(true);
+    } else {
+      setListLoadingMore(true);
+    }
+    setError('');
+    const pageOffset = reset ? 0 : listOffset;
+    const signal = beginListRequest();
+    // The total costs the server an extra count, so only ask for it with the first page.
+    const result = await api.listDirectory(
+      {
+        root: activeRoot.id,
+        path,
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+        includeTotal: reset,
+      },
+      { signal }
+    );
+    if (isAbortedError(result)) {
+      setListLoadingMore(false);
+      return;
+    }
+    if (!result.ok) {
+      setError(result.error?.message || 'Failed to load files');
+      if (reset) {
+        setItems([]);
+        setListTotal(null);
+      }
+      setListHasMore(false);
+      setLoading(false);
+      setListLoadingMore(false);
+      return;
+    }
+    const newItems = result.data.items;
+    const total = reset ? result.data.total : listTotal;
+    const nextOffset = pageOffset + newItems.length;
+    setItems((prev) => (reset ? newItems : [...prev, ...newItems]));
+    setListOffset(nextOffset);
+    setListTotal(total);
+    setListHasMore(total !== null ? nextOffset < total : newItems.length === PAGE_LIMIT);
+    setLoading(false);
+    setListLoadingMore(false);
+  };
+
+  useEffect(() => {
+    if (restoredScrollRef.current || loading || !items.length) {
+      return;
+    }
+    restoredScrollRef.current = true;
+    const offset = scrollOffsets.get(scrollKey);
+    if (offset) {
+      requestAnimationFrame(() => {
+        listRef.current?.scrollToOffset({ offset, animated: false });
+      });
+    }
+  }, [loading, items.length, scrollKey]);
+
+  const rememberScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!isSearchMode) {
+      scrollOffsets.set(scrollKey, event.nativeEvent.contentOffset.y);
+    }
+  };
+
+  useEffect(() => {
+    loadList();
+  }, [activeRoot?.id, path]);
+
+  // Finished uploads change the listing, so pick them up without a manual refresh.
+  const uploadedSeenRef = useRef(uploadedHere);
+  useEffect(() => {
+    if (uploadedHere > uploadedSeenRef.current) {
+      loadList();
+    }
+    uploadedSeenRef.current = uploadedHere;
+  }, [uploadedHere]);
+
+  const runSearch = async ({ reset = true } = {}) => {
+    if (!activeRoot) {
+      return;
+    }
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setSearchOffset(0);
+      setSearchHasMore(true);
+      setSearchLoadingMore(false);
+      setSearching(false);
+      return;
+    }
+    if (reset) {
+      setSearching(true);
+      setSearchOffset(0);
+      setSearchHasMore(true);
+    } else {
+      setSearchLoadingMore(true);
+    }
+    setError('');
+    const pageOffset = reset ? 0 : searchOffset;
+    const signal = beginSearchRequest();
+    const result = await api.searchEntries(
+      {
+        root: activeRoot.id,
+        q: query,
+        type: 'all',
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+      },
+      { signal }
+    );
+    if (isAbortedError(result)) {
+      setSearchLoadingMore(false);
+      return;
+    }
+    if (result.ok) {
+      const newItems = result.data.items;
+      setSearchResults((prev) => (reset ? newItems : [...prev, ...newItems]));
+      setSearchOffset(pageOffset + newItems.length);
+      setSearchHasMore(newItems.length === PAGE_LIMIT);
+      setError('');
+    } else {
+      setSearchResults([]);
+      setSearchOffset(0);
+      setSearchHasMore(false);
+      setError(result.error?.message || 'Failed to search');
+    }
+    setSearching(false);
+    setSearchLoadingMore(false);
+  };
+
+  useEffect(() => {
+    if (!activeRoot) {
+      return;
+    }
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setSearchOffset(0);
+      setSearchHasMore(true);
+      setSearchLoadingMore(false);
+      setSearching(false);
+      return;
+    }
+    runSearch({ reset: true });
+  }, [searchQuery, activeRoot?.id]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    await loadList();
+    setRefreshing(false);
+  };
+
+  const handleRootSelect = (id: string) => {
+    if (id === rootId) {
+      return;
+    }
+    // Each root starts its own history so back never crosses into another root.
+    router.dismissAll();
+    router.replace(folderHref(id, ''));
+  };
+
+  const openFolder = (nextPath: string) => {
+    if (nextPath === path) {
+      return;
+    }
+    // Ancestors are usually still mounted below this screen; going back to them
+    // keeps their scroll position instead of stacking a fresh copy.
+    if (path.startsWith(nextPath ? `${nextPath}/` : '')) {
+      router.dismissTo(folderHref(rootId, nextPath));
+      return;
+    }
+    router.push(folderHref(rootId, nextPath));
+  };
+
+  // Without history below (e.g. reopened from a deep link), back walks up the tree.
+  useFocusEffect(
+    useCallback(() => {
+      const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+        if (selectionMode) {
+          exitSelection();
+          return true;
+        }
+        if (!path || navigation.canGoBack()) {
+          return false;
+        }
+        router.replace(folderHref(rootId, parentPath(path)));
+        return true;
+      });
+      return () => subscription.remove();
+    }, [navigation, path, rootId, selectionMode])
+  );
+
+  // Applies a change to both the folder listing and any visible search results.
+  const updateEntries = (update: (entries: Entry[]) => Entry[]) => {
+    setItems(update);
+    setSearchResults(update);
+  };
+
+  const removeEntries = (paths: string[]) => {
+    const removed = new Set(paths);
+    const visibleCount = items.filter((entry) => removed.has(entry.path)).length;
+    updateEntries((entries) => entries.filter((entry) => !removed.has(entry.path)));
+    setListTotal((prev) => (prev === null ? prev : Math.max(0, prev - visibleCount)));
+    setListOffset((prev) => Math.max(0, prev - visibleCount));
+  };
+
+  const reportFailures = (title: string, results: EntryActionItem[]) => {
+    const details = summarizeFailures(results);
+    if (details) {
+      Alert.alert(title, details);
+    }
+  };
+
+  const handleAction = (action: FileAction, entry: Entry) => {
+    setActionEntry(null);
+    setPromptError('');
+    if (action === 'rename') {
+      setNamePrompt({ kind: 'rename', entry });
+    } else if (action === 'newFolder') {
+      setNamePrompt({ kind: 'newFolder' });
+    } else if (action === 'move' || action === 'copy') {
+      setTransfer({ kind: action, entries: [entry] });
+    } else if (action === 'delete') {
+      confirmDelete([entry]);
+    }
+  };
+
+  const submitName = async (name: string) => {
+    if (!namePrompt || !activeRoot) {
+      return;
+    }
+    const validation = validateEntryName(name);
+    if (validation) {
+      setPromptError(validation);
+      return;
+    }
+    setPromptBusy(true);
+    setPromptError('');
+    if (namePrompt.kind === 'rename') {
+      const { entry } = namePrompt;
+      const result = await api.renameEntry({ root: activeRoot.id, path: entry.path, name });
+      setPromptBusy(false);
+      if (!result.ok) {
+        setPromptError(result.error?.message || 'Rename failed');
+        return;
+      }
+      const nextPath = joinPath(parentPath(entry.path), name);
+      // Search results can hold the entry's children too, so their paths move with it.
+      const renamed = (current: Entry): Entry =>
+        current.path === entry.path
+          ? { ...current, name, path: nextPath }
+          : current.path.startsWith(`${entry.path}/`)
+            ? { ...current, path: nextPath + current.path.slice(entry.path.length) }
+            : current;
+      updateEntries((entries) => entries.map(renamed));
+      // Selection is keyed by path, so re-key it or later batch actions miss the entry.
+      setSelected((prev) =>
+        Object.fromEntries(
+          Object.values(prev).map((current) => {
+            const next = renamed(current);
+            return [next.path, next];
+          })
+        )
+      );
+    } else {
+      const folderPath = joinPath(path, name);
+      const result = await api.createFolder({ root: activeRoot.id, path: folderPath });
+      setPromptBusy(false);
+      if (!result.ok) {
+        setPromptError(result.error?.message || 'Could not create folder');
+        return;
+      }
+      const created: Entry = result.data?.entry || {
+        rootId: activeRoot.id,
+        path: folderPath,
+        name,
+        size: 0,
+        mtime: Date.now(),
+        isDir: true,
+      };
+      setItems((prev) => [created, ...prev]);
+      setListTotal((prev) => (prev === null ? prev : prev + 1));
+      setListOffset((prev) => prev + 1);
+    }
+    setNamePrompt(null);
+  };
+
+  const runTransfer = async (targetRoot: string, targetPath: string) => {
+    if (!transfer || !activeRoot) {
+      return;
+    }
+    const { kind, entries } = transfer;
+    setTransfer(null);
+    // A folder cannot be placed inside itself; report those instead of asking the server.
+    const blocked: EntryActionItem[] = [];
+    const allowed = entries.filter((entry) => {
+      const intoSelf =
+        targetRoot === activeRoot.id &&
+        entry.isDir &&
+        (targetPath === entry.path || targetPath.startsWith(`${entry.path}/`));
+      if (intoSelf) {
+        blocked.push({
+          path: entry.path,
+          ok: false,
+          error: { message: `Cannot ${kind} a folder into itself.` },
+        });
+      }
+      return !intoSelf;
+    });
+    setBatchBusy(true);
+    const transferred = await runBatched(
+      allowed.map((entry) => entry.path),
+      (paths) => {
+        const params = { root: activeRoot.id, paths, targetRoot, targetPath };
+        return kind === 'move' ? api.moveEntries(params) : api.copyEntries(params);
+      }
+    );
+    setBatchBusy(false);
+    const results = [...blocked, ...transferred];
+    const sameFolder = targetRoot === activeRoot.id && targetPath === path;
+    const succeeded = results.filter((item) => item.ok).map((item) => item.path);
+    if (kind === 'move' && !sameFolder) {
+      removeEntries(succeeded);
+      deselect(succeeded);
+    } else if (kind === 'copy' && sameFolder && succeeded.length) {
+      loadList();
+    }
+    reportFailures(
+      kind === 'move' ? 'Some items were not moved' : 'Some items were not copied',
+      results
+    );
+  };
+
+  const deleteEntries = async (entries: Entry[]) => {
+    if (!activeRoot) {
+      return;
+    }
+    setBatchBusy(true);
+    const results = await runBatched(
+      entries.map((entry) => entry.path),
+      (paths) => api.deleteEntries({ root: activeRoot.id, paths })
+    );
+    setBatchBusy(false);
+    const deleted = results.filter((item) => item.ok).map((item) => item.path);
+    removeEntries(deleted);
+    deselect(deleted);
+    reportFailures('Some items were not deleted', results);
+  };
+
+  const selectedEntries = useMemo(() => Object.values(selected), [selected]);
+  const selectedBytes = useMemo(
+    () => selectedEntries.reduce((sum, entry) => sum + (entry.isDir ? 0 : entry.size || 0), 0),
+    [selectedEntries]
+  );
+
+  const exitSelection = () => {
+    setSelectionMode(false);
+    setSelected({});
+  };
+
+  const toggleSelected = (entry: Entry) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[entry.path]) {
+        delete next[entry.path];
+      } else {
+        next[entry.path] = entry;
+      }
+      return next;
+    });
+  };
+
+  const selectAllLoaded = () => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      listItems.forEach((entry) => {
+        next[entry.path] = entry;
+      });
+      return next;
+    });
+  };
+
+  const deselect = (paths: string[]) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      paths.forEach((entryPath) => {
+        delete next[entryPath];
+      });
+      return next;
+    });
+  };
+
+  const runFileTransfer = async (kind: 'download' | 'share') => {
+    const files = selectedEntries.filter((entry) => !entry.isDir);
+    if (!files.length) {
+      Alert.alert(`Nothing to ${kind}`, 'Select at least one file; folders are skipped.');
+      return;
+    }
+    if (kind === 'download') {
+      const added = downloads.enqueue(files);
+      Alert.alert(
+        'Downloads',
+        added
+          ? `Added ${added} of ${files.length} files to Downloads.`
+          : 'These files are already downloading.',
+        [
+          { text: 'OK', style: 'cancel' },
+          { text: 'View', onPress: () => router.push('/downloads') },
+        ]
+      );
+      return;
+    }
+    setBatchBusy(true);
+    const results = await shareEntries(files, authHeaders);
+    setBatchBusy(false);
+    reportFailures('Some files were not shared', results);
+  };
+
+  // Other files have no in-app viewer: open a finished download, otherwise fetch it.
+  const openOtherFile = (entry: Entry) => {
+    const completed = downloads.findCompleted(entry);
+    if (completed) {
+      downloads.open(completed.id).catch((error) => {
+        Alert.alert('Cannot open file', error?.message || 'No app can open this file.');
+      });
+      return;
+    }
+    downloads.enqueue([entry]);
+    router.push('/downloads');
+  };
+
+  const pickUploads = async () => {
+    if (!activeRoot) {
+      return;
+    }
+    const picked = await DocumentPicker.getDocumentAsync({
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || !picked.assets.length) {
+      return;
+    }
+    const files = picked.assets.map((asset) => ({
+      uri: asset.uri,
+      name: asset.name,
+      size: asset.size,
+    }));
+    const start = (policy: UploadConflictPolicy) =>
+      uploads.enqueue(files, { rootId: activeRoot.id, path }, policy);
+    Alert.alert(
+      `Upload ${files.length === 1 ? `"${files[0].name}"` : `${files.length} files`}`,
+      'If a file with the same name is already here:',
+      [
+        { text: 'Skip', onPress: () => start('skip') },
+        { text: 'Overwrite', style: 'destructive', onPress: () => start('overwrite') },
+        { text: 'Keep both', onPress: () => start('rename') },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const confirmDelete = (entries: Entry[]) => {
+    const label =
+      entries.length === 1 ? `"${entries[0].name || entries[0].path}"` : `${entries.length} items`;
+    const hasFolders = entries.some((entry) => entry.isDir);
+    Alert.alert(
+      'Delete',
+      `Delete ${label}?${hasFolders ? ' Folders are deleted with everything inside them.' : ''}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteEntries(entries) },
+      ]
+    );
+  };
+
+  const iconFor = (entry: Entry) => {
+    if (entry.isDir) {
+      return 'folder';
+    }
+    if (entry.mime?.startsWith('image/')) {
+      return 'image';
+    }
+    if (entry.mime?.startsWith('video/')) {
+      return 'film';
+    }
+    if (entry.mime?.startsWith('audio/')) {
+      return 'music';
+    }
+    return 'file';
+  };
+
+  const selectionActions: {
+    key: string;
+    label: string;
+    icon: React.ComponentProps<typeof FontAwesome>['name'];
+    onPress: () => void;
+    destructive?: boolean;
+  }[] = [
+    {
+      key: 'move',
+      label: 'Move',
+      icon: 'arrow-right',
+      onPress: () => setTransfer({ kind: 'move', entries: selectedEntries }),
+    },
+    {
+      key: 'copy',
+      label: 'Copy',
+      icon: 'copy',
+      onPress: () => setTransfer({ kind: 'copy', entries: selectedEntries }),
+    },
+    {
+      key: 'download',
+      label: 'Download',
+      icon: 'download',
+      onPress: () => runFileTransfer('download'),
+    },
+    { key: 'share', label: 'Share', icon: 'share-alt', onPress: () => runFileTransfer('share') },
+    {
+      key: 'delete',
+      label: 'Delete',
+      icon: 'trash',
+      onPress: () => confirmDelete(selectedEntries),
+      destructive: true,
+    },
+  ];
+  if (selectedEntries.length === 1) {
+    selectionActions.push({
+      key: 'more',
+      label: 'More',
+      icon: 'ellipsis-h',
+      onPress: () => setActionEntry(selectedEntries[0]),
+    });
+  }
+
+  const renderItem = ({ item }: { item: Entry }) => {
+    const isSelected = Boolean(selected[item.path]);
+    return (
+      <Pressable
+        style={[
+          styles.row,
+          { backgroundColor: cardBackground },
+          isSelected && { borderColor: palette.tint, borderWidth: 1 },
+        ]}
+        onLongPress={() => {
+          if (!selectionMode) {
+            setSelectionMode(true);
+            setSelected({ [item.path]: item });
+          }
+        }}
+        onPress={() => {
+          if (selectionMode) {
+            toggleSelected(item);
+          } else if (item.isDir) {
+            openFolder(item.path);
+          } else if (item.mime?.startsWith('image/') || item.mime?.startsWith('video/')) {
+            const index = mediaItems.findIndex(
+              (entry) => entry.rootId === item.rootId && entry.path === item.path
+            );
+            setMediaIndex(index >= 0 ? index : 0);
+          } else if (item.mime?.startsWith('audio/')) {
+            playTrack(item, audioItems.length ? audioItems : undefined);
+            setPlayerOpen(true);
+          } else {
+            openOtherFile(item);
+          }
+        }}
+      >
+        <View style={styles.rowIcon}>
+          {selectionMode ? (
+            <FontAwesome
+              name={isSelected ? 'check-circle' : 'circle-thin'}
+              size={20}
+              color={isSelected ? palette.tint : '#A0A4AC'}
+            />
+          ) : (
+            <FontAwesome name={iconFor(item)} size={18} color={palette.tint} />
+          )}
+        </View>
+        <View style={styles.rowText}>
+          <Text style={[styles.rowTitle, { color: palette.text }]} numberOfLines={1}>
+            {item.name || item.path}
+          </Text>
+          <Text style={[styles.rowMeta, { color: metaColor }]} numberOfLines={1}>
+            {item.isDir ? 'Folder' : formatBytes(item.size)}
+          </Text>
+        </View>
+        {!selectionMode && (
+          <Pressable
+            style={styles.rowMore}
+            hitSlop={8}
+            onPress={() => setActionEntry(item)}
+            accessibilityLabel={`Actions for ${item.name || item.path}`}
+          >
+            <FontAwesome name="ellipsis-v" size={16} color="#A0A4AC" />
+          </Pressable>
+        )}
+        {item.isDir && !selectionMode && (
+          <FontAwesome name="chevron-right" size={14} color="#A0A4AC" />
+        )}
+      </Pressable>
+    );
+  };
+
+  if (roots.length && !activeRoot) {
+    return <Redirect href="/files" />;
+  }
+
+  if (!roots.length) {
+    return (
+      <SafeAreaView style={[styles.safe, { backgroundColor: palette.background }]}>
+        <View style={styles.center}>
+          <Text style={styles.emptyText}>No storage roots configured.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+  const emptyLabel = searchQuery.trim()
+    ? searching
+      ? 'Searching...'
+      : 'No matches found.'
+    : 'No files found in this folder.';
+
+  const loadMoreSearch = async () => {
+    if (!searchHasMore || searchLoadingMore || searching || !isSearchMode) {
+      return;
+    }
+    await runSearch({ reset: false });
+  };
+
+  const loadMoreList = async () => {
+    if (!listHasMore || listLoadingMore || loading || isSearchMode) {
+      return;
+    }
+    await loadList({ reset: false });
+  };
+
+  const totalLabel =
+    !isSearchMode && listTotal !== null
+      ? `${listTotal} ${listTotal === 1 ? 'item' : 'items'}`
+      : '';
+  const footerLoading = isSearchMode ? searchLoadingMore : listLoadingMore;
+
+  return (
+    <SafeAreaView style={[styles.safe, { backgroundColor: palette.background }]}>
+      {selectionMode ? (
+        <View style={styles.header}>
+          <View>
+            <Text style={[styles.title, { color: palette.text }]}>
+              {selectedEntries.length} selected
+            </Text>
+            <Text style={styles.countLabel}>{formatBytes(selectedBytes)}</Text>
+          </View>
+          <View style={styles.headerActions}>
+            <Pressable style={styles.headerAction} onPress={selectAllLoaded}>
+              <Text style={[styles.headerActionLabel, { color: palette.tint }]}>Select all</Text>
+            </Pressable>
+            <Pressable style={styles.headerAction} onPress={exitSelection}>
+              <Text style={[styles.headerActionLabel, { color: palette.tint }]}>Done</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <View>
+            <Text style={[styles.title, { color: palette.text }]}>Files</Text>
+            {totalLabel ? <Text style={styles.countLabel}>{totalLabel}</Text> : null}
+          </View>
+          <View style={styles.headerActions}>
+            <Pressable style={styles.headerAction} onPress={() => router.push('/downloads')}>
+              <FontAwesome name="download" size={16} color={palette.tint} />
+            </Pressable>
+            <Pressable
+              style={styles.headerAction}
+              onPress={pickUploads}
+              accessibilityLabel="Upload here"
+            >
+              <FontAwesome name="upload" size={16} color={palette.tint} />
+            </Pressable>
+            <Pressable
+              style={styles.headerAction}
+              onPress={() => {
+                setPromptError('');
+                setNamePrompt({ kind: 'newFolder' });
+              }}
+            >
+              <FontAwesome name="plus" size={14} color={palette.tint} />
+              <Text style={[styles.headerActionLabel, { color: palette.tint }]}>New folder</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.breadcrumbBar}
+        contentContainerStyle={styles.breadcrumbs}
+      >
+        <Pressable onPress={() => openFolder('')} disabled={!path}>
+          <Text
+            style={[styles.crumb, { color: path ? palette.tint : palette.text }]}
+            numberOfLines={1}
+          >
+            {activeRoot?.name || activeRoot?.id || 'Root'}
+          </Text>
+        </Pressable>
+        {breadcrumbs.map((crumb, index) => {
+          const isLast = index === breadcrumbs.length - 1;
+          return (
+            <View key={crumb.path} style={styles.crumbItem}>
+              <FontAwesome name="chevron-right" size={10} color="#A0A4AC" />
+              <Pressable onPress={() => openFolder(crumb.path)} disabled={isLast}>
+                <Text
+                  style={[styles.crumb, { color: isLast ? palette.text : palette.tint }]}
+                  numberOfLines={1}
+                >
+                  {crumb.name}
+                </Text>
+              </Pressable>
+            </View>
+          );
+        })}
+      </ScrollView>
+      <View style={styles.searchRow}>
+        <TextInput
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search files"
+          placeholderTextColor={metaColor}
+          style={[
+            styles.searchInput,
+            { backgroundColor: inputBackground, borderColor: inputBorder, color: palette.text },
+          ]}
+        />
+      </View>
+      <View style={styles.rootRow}>
+        {roots.map((root) => (
+          <Pressable
+            key={root.id}
+            onPress={() => handleRootSelect(root.id)}
+            style={[
+              styles.rootChip,
+              { backgroundColor: chipBackground },
+              root.id === activeRoot?.id && { backgroundColor: palette.tint },
+            ]}
+          >
+            <Text
+              style={[
+                styles.rootLabel,
+                { color: root.id === activeRoot?.id ? '#fff' : palette.text },
+              ]}
+            >
+              {root.name || root.id}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {folderUploads.length ? (
+        <UploadProgressList
+          jobs={folderUploads}
+          onCancel={uploads.cancel}
+          onRetry={uploads.retry}
+          onClear={() => uploads.clearFinished(rootId, path)}
+        />
+      ) : null}
+      {loading && !refreshing ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : error ? (
+        <View style={styles.center}>
+          <Text style={styles.error}>{error}</Text>
+        </View>
+      ) : (
+        <FlatList
+          ref={listRef}
+          data={listItems}
+          onScrollEndDrag={rememberScroll}
+          onMomentumScrollEnd={rememberScroll}
+          keyExtractor={(item) => `${item.rootId}:${item.path}`}
+          renderItem={renderItem}
+          contentContainerStyle={listItems.length ? styles.list : styles.listEmpty}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+          onEndReached={isSearchMode ? loadMoreSearch : loadMoreList}
+          onEndReachedThreshold={0.4}
+          ListFooterComponent={
+            footerLoading ? <ActivityIndicator style={styles.footerLoader} /> : null
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>{emptyLabel}</Text>
+          }
+        />
+      )}
+      {selectionMode ? (
+        <View style={[styles.selectionBar, { backgroundColor: cardBackground }]}>
+          {batchBusy ? (
+            <ActivityIndicator style={styles.selectionBusy} />
+          ) : (
+            selectionActions.map((action) => (
+              <Pressable
+                key={action.key}
+                style={styles.selectionAction}
+                onPress={action.onPress}
+                disabled={!selectedEntries.length}
+              >
+                <FontAwesome
+                  name={action.icon}
+                  size={18}
+                  color={
+                    !selectedEntries.length
+                      ? '#A0A4AC'
+                      : action.destructive
+                        ? '#C03D3D'
+                        : palette.tint
+                  }
+                />
+                <Text style={[styles.selectionLabel, { color: metaColor }]}>{action.label}</Text>
+              </Pressable>
+            ))
+          )}
+        </View>
+      ) : null}
+      <PhotoViewerModal
+        visible={mediaIndex !== null}
+        items={mediaItems}
+        activeIndex={mediaIndex ?? 0}
+        onClose={() => setMediaIndex(null)}
+        authHeaders={authHeaders}
+      />
+      <FileActionSheet
+        entry={actionEntry}
+        onClose={() => setActionEntry(null)}
+        onAction={handleAction}
+      />
+      <NamePromptModal
+        visible={namePrompt !== null}
+        title={namePrompt?.kind === 'rename' ? 'Rename' : 'New folder'}
+        confirmLabel={namePrompt?.kind === 'rename' ? 'Rename' : 'Create'}
+        initialValue={namePrompt?.kind === 'rename' ? namePrompt.entry.name : ''}
+        busy={promptBusy}
+        error={promptError}
+        onCancel={() => setNamePrompt(null)}
+        onSubmit={submitName}
+      />
+      <FolderPickerModal
+        visible={transfer !== null}
+        title={transfer?.kind === 'copy' ? 'Copy to' : 'Move to'}
+        confirmLabel={transfer?.kind === 'copy' ? 'Copy here' : 'Move here'}
+        initialRootId={rootId}
+        initialPath={path}
+        onCancel={() => setTransfer(null)}
+        onSelect={runTransfer}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  breadcrumbBar: {
+    flexGrow: 0,
+  },
+  breadcrumbs: {
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+    alignItems: 'center',
+    gap: 6,
+  },
+  crumbItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  crumb: {
+    fontSize: 14,
+    fontWeight: '600',
+    maxWidth: 180,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  headerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  headerActionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  selectionAction: {
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 6,
+  },
+  selectionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  selectionBusy: {
+    paddingVertical: 8,
+  },
+  countLabel: {
+    marginTop: 2,
+    color: '#7D8390',
+    fontSize: 12,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+  searchRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  rootRow: {
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingBottom: 8,
+  },
+  rootChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#E9EDF5',
+  },
+  rootLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: 12,
+    paddingBottom: 90,
+  },
+  listEmpty: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 14,
+    marginBottom: 10,
+  },
+  rowIcon: {
+    width: 32,
+    alignItems: 'center',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 6,
+  },
+  rowMore: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#7D8390',
+    marginTop: 2,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  error: {
+    color: '#C03D3D',
+  },
+  emptyText: {
+    color: '#7D8390',
+  },
+});
@@ -0,0 +1,2 @@
+// The top of a root shares the folder screen; it just has no path segments.
+export { default } from './[...path]';
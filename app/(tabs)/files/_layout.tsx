@@ -0,0 +1,17 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Stack } from 'expo-router';
+import MiniPlayer from '@/components/MiniPlayer';
+import PlayerModal from '@/components/PlayerModal';
+
+// Every folder is its own stack entry, so the player lives here instead of being
+// rendered once per open folder.
+export default function FilesLayout() {
+  return (
+    <View style={{ flex: 1 }}>
+      <Stack screenOptions={{ headerShown: false }} />
+      <MiniPlayer />
+      <PlayerModal />
+    </View>
+  );
+}
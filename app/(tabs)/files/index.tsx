@@ -0,0 +1,43 @@
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Redirect } from 'expo-router';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { useServer } from '@/lib/server';
+
+export default function FilesIndexScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { roots, loaded } = useServer();
+
+  if (roots.length) {
+    return <Redirect href={{ pathname: '/files/[root]', params: { root: roots[0].id } }} />;
+  }
+
+  return (
+    <SafeAreaView style={[styles.safe, { backgroundColor: palette.background }]}>
+      <View style={styles.center}>
+        {loaded ? (
+          <Text style={styles.emptyText}>No storage roots configured.</Text>
+        ) : (
+          <ActivityIndicator color={palette.tint} />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: '#7D8390',
+  },
+});
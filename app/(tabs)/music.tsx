@@ -16,7 +16,10 @@ import { FontAwesomeIcon } from '@fortawesome/react-native-fontawesome';
 import { faCompactDisc } from '@fortawesome/free-solid-svg-icons';
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
-import { buildUrl, useApi } from '@/lib/api';
+import { buildUrl, useApi, useLatestRequest } from '@/lib/api';
+import { isAbortedError } from '@/lib/apiClient';
+import { AlbumItem, ArtistItem, TrackEntry } from '@/lib/endpoints';
+import { useAuth } from '@/lib/auth';
 import { useServer } from '@/lib/server';
 import { usePlayer } from '@/lib/player';
 import MiniPlayer from '@/components/MiniPlayer';
@@ -24,33 +27,6 @@ import PlayerModal from '@/components/PlayerModal';
 
 const PAGE_LIMIT = 60;
 
-type TrackEntry = {
-  rootId: string;
-  path: string;
-  name: string;
-  title?: string | null;
-  artist?: string | null;
-  album?: string | null;
-  albumKey?: string | null;
-  duration?: number | null;
-};
-
-type AlbumItem = {
-  albumKey: string | null;
-  album: string;
-  artist: string;
-  tracks: number;
-  latest: number;
-  coverKey: string | null;
-};
-
-type ArtistItem = {
-  artist: string;
-  tracks: number;
-  albums: number;
-  latest: number;
-};
-
 type MusicView = 'albums' | 'artists' | 'tracks';
 
 function formatDuration(value?: number | null) {
@@ -66,7 +42,8 @@ function formatDuration(value?: number | null) {
 export default function MusicScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const { apiJson, authHeaders } = useApi();
+  const { api, authHeaders } = useApi();
+  const { verifySession } = useAuth();
   const { playTrack, setPlayerOpen } = usePlayer();
   const { roots, refresh } = useServer();
   const [view, setView] = useState<MusicView>('albums');
@@ -104,6 +81,8 @@ export default function MusicScreen() {
   }, [roots]);
 
   const isDetail = Boolean(albumDetail || artistDetail);
+  const beginListRequest = useLatestRequest([view, rootId, searchQuery, isDetail]);
+  const beginDetailRequest = useLatestRequest([rootId, albumDetail, artistDetail]);
 
   const loadAlbums = async ({ reset = true } = {}) => {
     if (!rootId) {
@@ -119,13 +98,19 @@ export default function MusicScreen() {
     }
     setError('');
     const pageOffset = reset ? 0 : albumsOffset;
-    const url = buildUrl('/api/music/albums', {
-      root: rootId,
-      limit: PAGE_LIMIT,
-      offset: pageOffset,
-      q: query || undefined,
-    });
-    const result = await apiJson(url);
+    const result = await api.listAlbums(
+      {
+        root: rootId,
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+        q: query || undefined,
+      },
+      { signal: beginListRequest() }
+    );
+    if (isAbortedError(result)) {
+      setAlbumsLoadingMore(false);
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to load albums');
       if (reset) {
@@ -137,7 +122,7 @@ export default function MusicScreen() {
       setAlbumsLoadingMore(false);
       return;
     }
-    const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+    const newItems = result.data.items;
     setAlbums((prev) => (reset ? newItems : [...prev, ...newItems]));
     setAlbumsOffset(pageOffset + newItems.length);
     setAlbumsHasMore(newItems.length === PAGE_LIMIT);
@@ -159,13 +144,19 @@ export default function MusicScreen() {
     }
     setError('');
     const pageOffset = reset ? 0 : artistsOffset;
-    const url = buildUrl('/api/music/artists', {
-      root: rootId,
-      limit: PAGE_LIMIT,
-      offset: pageOffset,
-      q: query || undefined,
-    });
-    const result = await apiJson(url);
+    const result = await api.listArtists(
+      {
+        root: rootId,
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+        q: query || undefined,
+      },
+      { signal: beginListRequest() }
+    );
+    if (isAbortedError(result)) {
+      setArtistsLoadingMore(false);
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to load artists');
       if (reset) {
@@ -177,7 +168,7 @@ export default function MusicScreen() {
       setArtistsLoadingMore(false);
       return;
     }
-    const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+    const newItems = result.data.items;
     setArtists((prev) => (reset ? newItems : [...prev, ...newItems]));
     setArtistsOffset(pageOffset + newItems.length);
     setArtistsHasMore(newItems.length === PAGE_LIMIT);
@@ -198,13 +189,19 @@ export default function MusicScreen() {
     }
     setError('');
     const pageOffset = reset ? 0 : tracksOffset;
-    const url = buildUrl('/api/media', {
-      root: rootId,
-      type: 'music',
-      limit: PAGE_LIMIT,
-      offset: pageOffset,
-    });
-    const result = await apiJson(url);
+    const result = await api.listMedia(
+      {
+        root: rootId,
+        type: 'music',
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+      },
+      { signal: beginListRequest() }
+    );
+    if (isAbortedError(result)) {
+      setTracksLoadingMore(false);
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to load music');
       if (reset) {
@@ -216,7 +213,7 @@ export default function MusicScreen() {
       setTracksLoadingMore(false);
       return;
     }
-    const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+    const newItems = result.data.items;
     setTracks((prev) => (reset ? newItems : [...prev, ...newItems]));
     setTracksOffset(pageOffset + newItems.length);
     setTracksHasMore(newItems.length === PAGE_LIMIT);
@@ -245,14 +242,20 @@ export default function MusicScreen() {
     }
     setError('');
     const pageOffset = reset ? 0 : trackSearchOffset;
-    const url = buildUrl('/api/search', {
-      root: rootId,
-      q: query,
-      type: 'music',
-      limit: PAGE_LIMIT,
-      offset: pageOffset,
-    });
-    const result = await apiJson(url);
+    const result = await api.searchEntries(
+      {
+        root: rootId,
+        q: query,
+        type: 'music',
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+      },
+      { signal: beginListRequest() }
+    );
+    if (isAbortedError(result)) {
+      setTrackSearchLoadingMore(false);
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to search');
       if (reset) {
@@ -264,7 +267,7 @@ export default function MusicScreen() {
       setTrackSearchLoadingMore(false);
       return;
     }
-    const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+    const newItems = result.data.items;
     setTrackSearchResults((prev) => (reset ? newItems : [...prev, ...newItems]));
     setTrackSearchOffset(pageOffset + newItems.length);
     setTrackSearchHasMore(newItems.length === PAGE_LIMIT);
@@ -278,18 +281,23 @@ export default function MusicScreen() {
     }
     setDetailLoading(true);
     setError('');
-    const url = buildUrl('/api/music/album', {
-      root: rootId,
-      key: album.albumKey,
-    });
-    const result = await apiJson(url);
+    const result = await api.getAlbum(
+      {
+        root: rootId,
+        key: album.albumKey,
+      },
+      { signal: beginDetailRequest() }
+    );
+    if (isAbortedError(result)) {
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to load album');
       setDetailTracks([]);
       setDetailLoading(false);
       return;
     }
-    setDetailTracks(Array.isArray(result.data?.items) ? result.data.items : []);
+    setDetailTracks(result.data.items);
     setDetailLoading(false);
   };
 
@@ -299,18 +307,23 @@ export default function MusicScreen() {
     }
     setDetailLoading(true);
     setError('');
-    const url = buildUrl('/api/music/artist', {
-      root: rootId,
-      artist: artist.artist,
-    });
-    const result = await apiJson(url);
+    const result = await api.getArtist(
+      {
+        root: rootId,
+        artist: artist.artist,
+      },
+      { signal: beginDetailRequest() }
+    );
+    if (isAbortedError(result)) {
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to load artist');
       setDetailTracks([]);
       setDetailLoading(false);
       return;
     }
-    setDetailTracks(Array.isArray(result.data?.items) ? result.data.items : []);
+    setDetailTracks(result.data.items);
     setDetailLoading(false);
   };
 
@@ -322,6 +335,7 @@ export default function MusicScreen() {
     setAlbumDetail(null);
     setArtistDetail(null);
     setDetailTracks([]);
+    setDetailLoading(false);
     setSearchQuery('');
     setTrackSearchResults([]);
     setTrackSearchOffset(0);
@@ -369,6 +383,15 @@ export default function MusicScreen() {
     }
   }, [searchQuery, rootId, view, isDetail]);
 
+  // Loading follows the selection, so leaving the detail view aborts a slow response.
+  useEffect(() => {
+    if (albumDetail) {
+      loadAlbumTracks(albumDetail);
+    } else if (artistDetail) {
+      loadArtistTracks(artistDetail);
+    }
+  }, [albumDetail, artistDetail]);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await refresh();
@@ -522,6 +545,7 @@ export default function MusicScreen() {
               setAlbumDetail(null);
               setArtistDetail(null);
               setDetailTracks([]);
+              setDetailLoading(false);
             }}
           >
             <FontAwesome name="chevron-left" size={16} color={palette.tint} />
@@ -624,7 +648,6 @@ export default function MusicScreen() {
                 setAlbumDetail(item);
                 setArtistDetail(null);
                 setDetailTracks([]);
-                loadAlbumTracks(item);
               }}
             >
               {item.coverKey ? (
@@ -634,6 +657,7 @@ export default function MusicScreen() {
                     headers: authHeaders,
                   }}
                   style={styles.albumArt}
+                  onError={verifySession}
                 />
               ) : (
                 <View style={[styles.albumArt, styles.albumArtFallback]}>
@@ -665,7 +689,6 @@ export default function MusicScreen() {
                 setArtistDetail(item);
                 setAlbumDetail(null);
                 setDetailTracks([]);
-                loadArtistTracks(item);
               }}
             >
               <View style={styles.icon}>
@@ -13,24 +13,20 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
-import { buildUrl, useApi } from '@/lib/api';
+import { buildUrl, useApi, useLatestRequest } from '@/lib/api';
+import { isAbortedError } from '@/lib/apiClient';
+import { Entry } from '@/lib/endpoints';
+import { useAuth } from '@/lib/auth';
 import { useServer } from '@/lib/server';
 import PhotoViewerModal from '@/components/PhotoViewerModal';
 
 const PAGE_LIMIT = 60;
 
-type Entry = {
-  rootId: string;
-  path: string;
-  name: string;
-  mtime: number;
-  mime?: string | null;
-};
-
 export default function PhotosScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const { apiJson, authHeaders } = useApi();
+  const { api, authHeaders } = useApi();
+  const { verifySession } = useAuth();
   const { roots, refresh } = useServer();
   const [items, setItems] = useState<Entry[]>([]);
   const [offset, setOffset] = useState(0);
@@ -54,6 +50,9 @@ export default function PhotosScreen() {
     return roots.length > 1 ? '__all__' : roots[0].id;
   }, [roots]);
 
+  const beginPhotosRequest = useLatestRequest([rootId]);
+  const beginSearchRequest = useLatestRequest([searchQuery, rootId]);
+
   const loadPhotos = async ({ reset = true } = {}) => {
     if (!rootId) {
       return;
@@ -67,13 +66,20 @@ export default function PhotosScreen() {
     }
     setError('');
     const pageOffset = reset ? 0 : offset;
-    const url = buildUrl('/api/media', {
-      root: rootId,
-      type: 'photos',
-      limit: PAGE_LIMIT,
-      offset: pageOffset,
-    });
-    const result = await apiJson(url);
+    const signal = beginPhotosRequest();
+    const result = await api.listMedia(
+      {
+        root: rootId,
+        type: 'photos',
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+      },
+      { signal }
+    );
+    if (isAbortedError(result)) {
+      setLoadingMore(false);
+      return;
+    }
     if (!result.ok) {
       setError(result.error?.message || 'Failed to load photos');
       if (reset) {
@@ -85,7 +91,7 @@ export default function PhotosScreen() {
       setLoadingMore(false);
       return;
     }
-    const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+    const newItems = result.data.items;
     setItems((prev) => (reset ? newItems : [...prev, ...newItems]));
     setOffset(pageOffset + newItems.length);
     setHasMore(newItems.length === PAGE_LIMIT);
@@ -113,15 +119,20 @@ export default function PhotosScreen() {
     const handle = setTimeout(async () => {
       setSearchOffset(0);
       setSearchHasMore(true);
-      const url = buildUrl('/api/search', {
-        root: rootId,
-        q: query,
-        type: 'photos',
-        limit: PAGE_LIMIT,
-      });
-      const result = await apiJson(url);
+      const result = await api.searchEntries(
+        {
+          root: rootId,
+          q: query,
+          type: 'photos',
+          limit: PAGE_LIMIT,
+        },
+        { signal: beginSearchRequest() }
+      );
+      if (isAbortedError(result)) {
+        return;
+      }
       if (result.ok) {
-        const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+        const newItems = result.data.items;
         setSearchResults(newItems);
         setSearchOffset(newItems.length);
         setSearchHasMore(newItems.length === PAGE_LIMIT);
@@ -154,16 +165,22 @@ export default function PhotosScreen() {
     }
     setSearchLoadingMore(true);
     const pageOffset = searchOffset;
-    const url = buildUrl('/api/search', {
-      root: rootId,
-      q: searchQuery.trim(),
-      type: 'photos',
-      limit: PAGE_LIMIT,
-      offset: pageOffset,
-    });
-    const result = await apiJson(url);
+    const result = await api.searchEntries(
+      {
+        root: rootId,
+        q: searchQuery.trim(),
+        type: 'photos',
+        limit: PAGE_LIMIT,
+        offset: pageOffset,
+      },
+      { signal: beginSearchRequest() }
+    );
+    if (isAbortedError(result)) {
+      setSearchLoadingMore(false);
+      return;
+    }
     if (result.ok) {
-      const newItems = Array.isArray(result.data?.items) ? result.data.items : [];
+      const newItems = result.data.items;
       setSearchResults((prev) => [...prev, ...newItems]);
       setSearchOffset(pageOffset + newItems.length);
       setSearchHasMore(newItems.length === PAGE_LIMIT);
@@ -262,6 +279,7 @@ export default function PhotosScreen() {
                   headers: authHeaders,
                 }}
                 style={styles.image}
+                onError={verifySession}
               />
             </Pressable>
           )}
@@ -9,448 +9,117 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import * as SecureStore from 'expo-secure-store';
+import { router } from 'expo-router';
 import * as MediaLibrary from 'expo-media-library';
-import { Directory as FsDirectory, File as FsFile } from 'expo-file-system';
+import { Directory as FsDirectory } from 'expo-file-system';
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
-import { API_BASE_URL } from '@/lib/config';
+import SyncPreviewModal from '@/components/SyncPreviewModal';
 import { useAuth } from '@/lib/auth';
+import { useConnection } from '@/lib/connection';
+import { normalizeBaseUrl } from '@/lib/config';
 import { useServer } from '@/lib/server';
-import { buildUrl, useApi } from '@/lib/api';
 import { formatBytes, formatDate } from '@/lib/format';
-
-const CAMERA_SYNC_ROOT_KEY = 'nnc_camera_sync_root';
-const CAMERA_SYNC_PATH_KEY = 'nnc_camera_sync_path';
-const CAMERA_SYNC_INCLUDE_VIDEOS_KEY = 'nnc_camera_sync_include_videos';
-const CAMERA_SYNC_SOURCE_KEY = 'nnc_camera_sync_source';
-const CAMERA_SYNC_FOLDER_URI_KEY = 'nnc_camera_sync_folder_uri';
-const CAMERA_SYNC_MIRROR_KEY = 'nnc_camera_sync_mirror';
-const CAMERA_SYNC_CONFLICT_POLICY_KEY = 'nnc_camera_sync_conflict_policy';
-const SCAN_PAGE_SIZE = 150;
-const MIN_CHUNK_BYTES = 256 * 1024;
-const MAX_CHUNK_BYTES = 2 * 1024 * 1024;
-const DELETE_BATCH_SIZE = 100;
-const LIST_PAGE_SIZE = 200;
-const STATUS_BATCH_SIZE = 60;
-const MAX_RENAME_ATTEMPTS = 50;
-
-type SyncStage = 'idle' | 'planning' | 'uploading' | 'mirroring' | 'done' | 'error' | 'cancelled';
-type SyncSource = 'camera' | 'folder';
-type SyncConflictPolicy = 'skip' | 'overwrite' | 'rename';
-
-type SyncProgress = {
-  stage: SyncStage;
-  discovered: number;
-  planned: number;
-  skipped: number;
-  failed: number;
-  uploaded: number;
-  plannedBytes: number;
-  uploadedBytes: number;
-  remoteDeleted: number;
-  remoteDeleteFailed: number;
-  currentFileName: string;
-  currentFileBytes: number;
-  currentFileUploaded: number;
-  message: string;
-  error: string;
-  startedAt: number | null;
-  finishedAt: number | null;
-};
-
-type UploadCandidate = {
-  kind: 'camera' | 'folder';
-  displayName: string;
-  localUri: string;
-  size: number;
-  initialOffset: number;
-  remoteTarget: string;
-  monthBucket: string;
-  capturedAtIso: string;
-  overwrite: boolean;
-};
-
-type LocalFolderFile = {
-  localUri: string;
-  relativePath: string;
-  displayName: string;
-  size: number;
+import { setProfileItem } from '@/lib/profiles';
+import {
+  clampChunkBytes,
+  ConflictPolicy,
+  DEFAULT_FOLDER_TEMPLATE,
+  DEFAULT_NAME_PATTERN,
+  DEFAULT_PRUNE_LIMITS,
+  DEFAULT_SYNC_CONCURRENCY,
+  DEFAULT_SYNC_CONDITIONS,
+  DEFAULT_SYNC_FILTERS,
+  joinUploadPath,
+  NAMING_TOKENS,
+  normalizeUploadPath,
+  parsePatternList,
+  PruneLimits,
+  SYNC_CONCURRENCY_LEVELS,
+  SYNC_FILE_TYPES,
+  SyncConditions,
+  SyncFileType,
+  SyncFilters,
+  renderCameraFileName,
+  renderCameraFolder,
+  TRASH_FOLDER,
+} from '@/lib/upload';
+import {
+  CameraAlbum,
+  CAMERA_SYNC_ALBUMS_KEY,
+  CAMERA_SYNC_CHARGING_ONLY_KEY,
+  CAMERA_SYNC_CONCURRENCY_KEY,
+  CAMERA_SYNC_CONFLICT_POLICY_KEY,
+  CAMERA_SYNC_EXCLUDE_KEY,
+  CAMERA_SYNC_FOLDER_TEMPLATE_KEY,
+  CAMERA_SYNC_FOLDER_URI_KEY,
+  CAMERA_SYNC_INCLUDE_KEY,
+  CAMERA_SYNC_INCLUDE_VIDEOS_KEY,
+  CAMERA_SYNC_MAX_SIZE_KEY,
+  CAMERA_SYNC_MIN_AGE_KEY,
+  CAMERA_SYNC_MIN_BATTERY_KEY,
+  CAMERA_SYNC_MIRROR_KEY,
+  CAMERA_SYNC_PRUNE_MAX_FILES_KEY,
+  CAMERA_SYNC_PRUNE_MAX_PERCENT_KEY,
+  CAMERA_SYNC_PRUNE_TRASH_KEY,
+  CAMERA_SYNC_RATE_LIMIT_KEY,
+  CAMERA_SYNC_UNMETERED_ONLY_KEY,
+  CAMERA_SYNC_WIFI_ONLY_KEY,
+  CAMERA_SYNC_NAME_PATTERN_KEY,
+  CAMERA_SYNC_PATH_KEY,
+  CAMERA_SYNC_ROOT_KEY,
+  CAMERA_SYNC_SOURCE_KEY,
+  CAMERA_SYNC_TYPES_KEY,
+  clearSyncJob,
+  deviceName,
+  isMediaSyncRunning,
+  loadMediaSyncSettings,
+  MediaSyncSettings,
+  previewMediaSync,
+  readSyncJob,
+  runMediaSync,
+  syncJobFileCount,
+  SyncJob,
+  SyncPreview,
+  SyncProgress,
+  syncProgressBase,
+  SyncSource,
+  toErrorMessage,
+} from '@/lib/upload/sync';
+import {
+  BACKGROUND_SYNC_CHARGING_KEY,
+  BACKGROUND_SYNC_ENABLED_KEY,
+  BACKGROUND_SYNC_INTERVAL_KEY,
+  BACKGROUND_SYNC_INTERVALS,
+  DEFAULT_BACKGROUND_SYNC_INTERVAL,
+  loadBackgroundSyncSettings,
+  registerBackgroundSync,
+  requestSyncNotificationPermission,
+  unregisterBackgroundSync,
+} from '@/lib/backgroundSync';
+
+type SyncConflictPolicy = ConflictPolicy;
+
+const FILE_TYPE_LABELS: Record<SyncFileType, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  other: 'Other',
 };
 
-function normalizeUploadPath(value: string) {
-  return String(value || '')
-    .replace(/\\/g, '/')
-    .replace(/^\/+/, '')
-    .replace(/\/+$/, '');
-}
-
-function joinUploadPath(...parts: string[]) {
-  const segments: string[] = [];
-  for (const part of parts) {
-    const normalized = normalizeUploadPath(part);
-    if (!normalized) {
-      continue;
-    }
-    for (const segment of normalized.split('/')) {
-      if (!segment || segment === '.') {
-        continue;
-      }
-      segments.push(segment);
-    }
-  }
-  return segments.join('/');
-}
-
-function normalizeTimestamp(value: number | null | undefined) {
-  const numeric = Number(value || 0);
-  if (!Number.isFinite(numeric) || numeric <= 0) {
-    return Date.now();
-  }
-  return numeric < 1e12 ? numeric * 1000 : numeric;
-}
-
-function monthBucketFromTime(timestamp: number) {
-  const value = normalizeTimestamp(timestamp);
-  const date = new Date(value);
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  return `${date.getFullYear()}-${month}`;
-}
-
-function sanitizeFileName(name: string, fallbackId: string) {
-  const normalized = String(name || '').trim().replace(/[\\/:*?"<>|]+/g, '_');
-  if (normalized) {
-    return normalized;
-  }
-  return `${fallbackId}.jpg`;
-}
-
-function splitNameAndExt(fileName: string) {
-  const raw = String(fileName || '');
-  const lastDot = raw.lastIndexOf('.');
-  if (lastDot <= 0) {
-    return { name: raw, ext: '' };
-  }
-  return {
-    name: raw.slice(0, lastDot),
-    ext: raw.slice(lastDot),
-  };
-}
-
-function addConflictSuffix(fileName: string, attempt: number) {
-  if (!Number.isFinite(attempt) || attempt <= 0) {
-    return fileName;
-  }
-  const { name, ext } = splitNameAndExt(fileName);
-  return `${name} (${attempt})${ext}`;
-}
-
-function renameRemoteTarget(remoteTarget: string, attempt: number) {
-  const normalized = normalizeUploadPath(remoteTarget);
-  if (!normalized) {
-    return normalized;
-  }
-  const parts = normalized.split('/');
-  const fileName = parts.pop() || '';
-  const nextName = addConflictSuffix(fileName, attempt);
-  return parts.length ? `${parts.join('/')}/${nextName}` : nextName;
-}
-
-function renameCandidateForAttempt(candidate: UploadCandidate, attempt: number): UploadCandidate {
-  if (attempt <= 0) {
-    return candidate;
-  }
-  if (candidate.kind === 'camera') {
-    const nextName = addConflictSuffix(candidate.displayName, attempt);
-    return {
-      ...candidate,
-      displayName: nextName,
-      overwrite: false,
-    };
-  }
-  const nextTarget = renameRemoteTarget(candidate.remoteTarget, attempt);
-  return {
-    ...candidate,
-    remoteTarget: nextTarget,
-    displayName: nextTarget,
-    overwrite: false,
-  };
-}
-
-function toErrorMessage(error: any, fallback: string) {
-  const message = error?.message;
-  if (typeof message === 'string' && message.trim()) {
-    return message.trim();
-  }
-  return fallback;
-}
-
-function syncProgressBase(): SyncProgress {
-  return {
-    stage: 'idle',
-    discovered: 0,
-    planned: 0,
-    skipped: 0,
-    failed: 0,
-    uploaded: 0,
-    plannedBytes: 0,
-    uploadedBytes: 0,
-    remoteDeleted: 0,
-    remoteDeleteFailed: 0,
-    currentFileName: '',
-    currentFileBytes: 0,
-    currentFileUploaded: 0,
-    message: '',
-    error: '',
-    startedAt: null,
-    finishedAt: null,
-  };
-}
-
-async function postUploadChunk({
-  token,
-  url,
-  bytes,
-}: {
-  token: string;
-  url: string;
-  bytes: Uint8Array;
-}) {
-  const headers: Record<string, string> = {
-    Accept: 'application/json',
-    'Content-Type': 'application/octet-stream',
-  };
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  const body = bytes.buffer.slice(
-    bytes.byteOffset,
-    bytes.byteOffset + bytes.byteLength
-  ) as ArrayBuffer;
-  const response = await fetch(url, {
-    method: 'POST',
-    headers,
-    body,
-  });
-
-  let payload: any = null;
-  try {
-    payload = await response.json();
-  } catch {
-    payload = null;
-  }
-
-  if (payload?.ok) {
-    return { ok: true as const, data: payload.data };
-  }
-
-  return {
-    ok: false as const,
-    status: response.status,
-    error: payload?.error || { message: 'Chunk upload failed' },
-  };
-}
-
-function makeStatusUrl({
-  rootId,
-  uploadBasePath,
-  candidate,
-  overwrite,
-}: {
-  rootId: string;
-  uploadBasePath: string;
-  candidate: UploadCandidate;
-  overwrite: boolean;
-}) {
-  if (candidate.kind === 'camera') {
-    return buildUrl('/api/upload/status', {
-      root: rootId,
-      path: uploadBasePath,
-      file: candidate.displayName,
-      size: candidate.size,
-      overwrite: overwrite ? 1 : 0,
-      camera: 1,
-      cameraMonth: candidate.monthBucket,
-      capturedAt: candidate.capturedAtIso,
-    });
-  }
-  return buildUrl('/api/upload/status', {
-    root: rootId,
-    target: candidate.remoteTarget,
-    size: candidate.size,
-    overwrite: overwrite ? 1 : 0,
-  });
-}
-
-function makeChunkUrl({
-  rootId,
-  uploadBasePath,
-  candidate,
-  offset,
-  overwrite,
-}: {
-  rootId: string;
-  uploadBasePath: string;
-  candidate: UploadCandidate;
-  offset: number;
-  overwrite: boolean;
-}) {
-  if (candidate.kind === 'camera') {
-    return buildUrl('/api/upload/chunk', {
-      root: rootId,
-      path: uploadBasePath,
-      file: candidate.displayName,
-      size: candidate.size,
-      offset,
-      overwrite: overwrite ? 1 : 0,
-      camera: 1,
-      cameraMonth: candidate.monthBucket,
-      capturedAt: candidate.capturedAtIso,
-    });
-  }
-  return buildUrl('/api/upload/chunk', {
-    root: rootId,
-    target: candidate.remoteTarget,
-    size: candidate.size,
-    offset,
-    overwrite: overwrite ? 1 : 0,
-  });
-}
-
-function buildStatusPayload({
-  uploadBasePath,
-  candidate,
-  overwrite,
-}: {
-  uploadBasePath: string;
-  candidate: UploadCandidate;
-  overwrite: boolean;
-}) {
-  if (candidate.kind === 'camera') {
-    return {
-      path: uploadBasePath,
-      file: candidate.displayName,
-      size: candidate.size,
-      overwrite: overwrite ? 1 : 0,
-      camera: 1,
-      cameraMonth: candidate.monthBucket,
-      capturedAt: candidate.capturedAtIso,
-    };
-  }
-  return {
-    target: candidate.remoteTarget,
-    size: candidate.size,
-    overwrite: overwrite ? 1 : 0,
-  };
-}
-
-function normalizeBatchStatusItems(rawItems: any, expected: number) {
-  const byIndex: Array<any | null> = Array.from({ length: expected }, () => null);
-  if (!Array.isArray(rawItems)) {
-    return byIndex;
-  }
-  for (const entry of rawItems) {
-    const index = Number(entry?.index);
-    if (!Number.isInteger(index) || index < 0 || index >= expected) {
-      continue;
-    }
-    byIndex[index] = entry;
-  }
-  return byIndex;
-}
-
-function buildFolderCandidates({
-  files,
-  uploadBasePath,
-}: {
-  files: LocalFolderFile[];
-  uploadBasePath: string;
-}) {
-  return files.map((file) => {
-    const remoteTarget = joinUploadPath(uploadBasePath, file.relativePath);
-    return {
-      kind: 'folder' as const,
-      displayName: file.relativePath,
-      localUri: file.localUri,
-      size: file.size,
-      initialOffset: 0,
-      remoteTarget,
-      monthBucket: '',
-      capturedAtIso: '',
-      overwrite: false,
-    };
-  });
-}
-
-function safeCloseHandle(handle: { close: () => void } | null) {
-  if (!handle) {
-    return;
-  }
-  try {
-    handle.close();
-  } catch {
-    // no-op
-  }
-}
-
-async function collectLocalFolderFiles(rootUri: string) {
-  const root = new FsDirectory(rootUri);
-  const stack: Array<{ dir: FsDirectory; relPath: string }> = [{ dir: root, relPath: '' }];
-  const files: LocalFolderFile[] = [];
-  let discovered = 0;
-  let failed = 0;
-
-  while (stack.length) {
-    const current = stack.pop();
-    if (!current) {
-      continue;
-    }
-
-    let entries: Array<FsDirectory | FsFile>;
-    try {
-      entries = current.dir.list() as Array<FsDirectory | FsFile>;
-    } catch {
-      failed += 1;
-      continue;
-    }
-
-    for (const entry of entries) {
-      if (entry instanceof FsDirectory) {
-        const nextRel = joinUploadPath(current.relPath, entry.name || '');
-        stack.push({ dir: entry, relPath: nextRel });
-        continue;
-      }
-
-      if (!(entry instanceof FsFile)) {
-        continue;
-      }
-
-      discovered += 1;
-      const relativePath = joinUploadPath(current.relPath, entry.name || '');
-      const size = Number(entry.size || 0);
-      if (!relativePath || !Number.isFinite(size) || size < 0) {
-        failed += 1;
-        continue;
-      }
-
-      files.push({
-        localUri: entry.uri,
-        relativePath,
-        displayName: relativePath,
-        size,
-      });
-    }
-  }
-
-  return { files, discovered, failed };
-}
+const FAILURES_SHOWN = 5;
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const { signOut, token } = useAuth();
+  const { signOut, token, profiles, activeProfile, switchProfile, removeProfile } = useAuth();
+  const profileId = activeProfile?.id || null;
   const { info, status, roots, refresh } = useServer();
-  const { apiJson } = useApi();
+  const { baseUrl, setBaseUrl } = useConnection();
+  const [serverUrlDraft, setServerUrlDraft] = useState(baseUrl);
+  const [serverUrlSaving, setServerUrlSaving] = useState(false);
+  const [serverUrlError, setServerUrlError] = useState('');
 
   const [syncRootId, setSyncRootId] = useState('');
   const [syncPath, setSyncPath] = useState('');
@@ -458,10 +127,42 @@ export default function SettingsScreen() {
   const [syncSource, setSyncSource] = useState<SyncSource>('camera');
   const [localFolderUri, setLocalFolderUri] = useState('');
   const [mirrorRemote, setMirrorRemote] = useState(false);
+  const [pruneLimits, setPruneLimits] = useState<PruneLimits>(DEFAULT_PRUNE_LIMITS);
+  const [pruneToTrash, setPruneToTrash] = useState(false);
+  const [syncConcurrency, setSyncConcurrency] = useState(DEFAULT_SYNC_CONCURRENCY);
+  const [rateLimitKBps, setRateLimitKBps] = useState(0);
+  const [rateLimitDraft, setRateLimitDraft] = useState('');
+  const [syncConditions, setSyncConditions] = useState<SyncConditions>(DEFAULT_SYNC_CONDITIONS);
+  const [minBatteryDraft, setMinBatteryDraft] = useState('');
+  const [pruneMaxFilesDraft, setPruneMaxFilesDraft] = useState(
+    String(DEFAULT_PRUNE_LIMITS.maxFiles)
+  );
+  const [pruneMaxPercentDraft, setPruneMaxPercentDraft] = useState(
+    String(DEFAULT_PRUNE_LIMITS.maxPercent)
+  );
   const [conflictPolicy, setConflictPolicy] = useState<SyncConflictPolicy>('skip');
+  const [syncFilters, setSyncFilters] = useState<SyncFilters>(DEFAULT_SYNC_FILTERS);
+  const [syncAlbums, setSyncAlbums] = useState<CameraAlbum[]>([]);
+  const [deviceAlbums, setDeviceAlbums] = useState<MediaLibrary.Album[] | null>(null);
+  const [albumsError, setAlbumsError] = useState('');
+  const [folderTemplate, setFolderTemplate] = useState(DEFAULT_FOLDER_TEMPLATE);
+  const [namePattern, setNamePattern] = useState(DEFAULT_NAME_PATTERN);
+  const [includeDraft, setIncludeDraft] = useState('');
+  const [excludeDraft, setExcludeDraft] = useState(DEFAULT_SYNC_FILTERS.exclude.join(', '));
+  const [maxSizeDraft, setMaxSizeDraft] = useState('');
+  const [minAgeDraft, setMinAgeDraft] = useState('');
+  const [backgroundEnabled, setBackgroundEnabled] = useState(false);
+  const [backgroundCharging, setBackgroundCharging] = useState(false);
+  const [backgroundInterval, setBackgroundInterval] = useState(DEFAULT_BACKGROUND_SYNC_INTERVAL);
+  const [backgroundError, setBackgroundError] = useState('');
+  const [pendingJob, setPendingJob] = useState<SyncJob | null>(null);
+  const [syncPreview, setSyncPreview] = useState<SyncPreview | null>(null);
   const [syncRunning, setSyncRunning] = useState(false);
   const [syncProgress, setSyncProgress] = useState<SyncProgress>(syncProgressBase());
   const cancelRef = useRef(false);
+  // A sync outlives renders, so it reads the token as it is renewed mid-run.
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
 
   const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
   const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
@@ -470,15 +171,28 @@ export default function SettingsScreen() {
   const chipBackground = colorScheme === 'dark' ? '#1F232B' : '#E9EDF5';
 
   const uploadEnabled = info?.capabilities?.upload?.enabled !== false;
-  const chunkBytes = useMemo(() => {
-    const serverChunk = Number(info?.capabilities?.upload?.chunkBytes || 0);
-    if (!Number.isFinite(serverChunk) || serverChunk <= 0) {
-      return MAX_CHUNK_BYTES;
-    }
-    return Math.max(MIN_CHUNK_BYTES, Math.min(MAX_CHUNK_BYTES, serverChunk));
-  }, [info?.capabilities?.upload?.chunkBytes]);
+  const chunkBytes = useMemo(
+    () => clampChunkBytes(info?.capabilities?.upload?.chunkBytes),
+    [info?.capabilities?.upload?.chunkBytes]
+  );
 
   const uploadPathNormalized = useMemo(() => normalizeUploadPath(syncPath), [syncPath]);
+  const namingPreview = useMemo(() => {
+    const album = syncAlbums[0];
+    const sample = {
+      capturedAt: Date.now(),
+      originalName: 'IMG_1234.jpg',
+      album: album?.title || '',
+      device: deviceName(),
+    };
+    return joinUploadPath(
+      uploadPathNormalized,
+      album?.folder || '',
+      renderCameraFolder(folderTemplate, sample),
+      renderCameraFileName(namePattern, sample)
+    );
+  }, [folderTemplate, namePattern, syncAlbums, uploadPathNormalized]);
+
   const selectedRoot = useMemo(
     () => roots.find((root) => root.id === syncRootId) || null,
     [roots, syncRootId]
@@ -494,59 +208,51 @@ export default function SettingsScreen() {
   useEffect(() => {
     let mounted = true;
     (async () => {
-      const [
-        savedRoot,
-        savedPath,
-        savedIncludeVideos,
-        savedSource,
-        savedFolderUri,
-        savedMirror,
-        savedConflictPolicy,
-      ] = await Promise.all([
-        SecureStore.getItemAsync(CAMERA_SYNC_ROOT_KEY),
-        SecureStore.getItemAsync(CAMERA_SYNC_PATH_KEY),
-        SecureStore.getItemAsync(CAMERA_SYNC_INCLUDE_VIDEOS_KEY),
-        SecureStore.getItemAsync(CAMERA_SYNC_SOURCE_KEY),
-        SecureStore.getItemAsync(CAMERA_SYNC_FOLDER_URI_KEY),
-        SecureStore.getItemAsync(CAMERA_SYNC_MIRROR_KEY),
-        SecureStore.getItemAsync(CAMERA_SYNC_CONFLICT_POLICY_KEY),
+      const [saved, background] = await Promise.all([
+        loadMediaSyncSettings(profileId),
+        loadBackgroundSyncSettings(profileId),
       ]);
-
       if (!mounted) {
         return;
       }
 
-      if (savedRoot) {
-        setSyncRootId(savedRoot);
-      }
-      if (savedPath) {
-        setSyncPath(savedPath);
-      }
-      if (savedIncludeVideos === '1') {
-        setIncludeVideos(true);
-      }
-      if (savedSource === 'folder') {
-        setSyncSource('folder');
-      }
-      if (savedFolderUri) {
-        setLocalFolderUri(savedFolderUri);
-      }
-      if (savedMirror === '1') {
-        setMirrorRemote(true);
-      }
-      if (
-        savedConflictPolicy === 'skip' ||
-        savedConflictPolicy === 'overwrite' ||
-        savedConflictPolicy === 'rename'
-      ) {
-        setConflictPolicy(savedConflictPolicy);
-      }
+      // Reset even when empty so nothing from the previous profile carries over.
+      setSyncRootId(saved.rootId);
+      setSyncPath(saved.basePath);
+      setIncludeVideos(saved.includeVideos);
+      setSyncSource(saved.source);
+      setLocalFolderUri(saved.folderUri);
+      setMirrorRemote(saved.mirror);
+      setPruneLimits(saved.pruneLimits);
+      setPruneToTrash(saved.pruneToTrash);
+      setSyncConcurrency(saved.concurrency);
+      setRateLimitKBps(saved.rateLimitKBps);
+      setRateLimitDraft(saved.rateLimitKBps ? String(saved.rateLimitKBps) : '');
+      setSyncConditions(saved.conditions);
+      setMinBatteryDraft(
+        saved.conditions.minBatteryPercent ? String(saved.conditions.minBatteryPercent) : ''
+      );
+      setPruneMaxFilesDraft(String(saved.pruneLimits.maxFiles));
+      setPruneMaxPercentDraft(String(saved.pruneLimits.maxPercent));
+      setConflictPolicy(saved.conflictPolicy);
+      setSyncFilters(saved.filters);
+      setSyncAlbums(saved.albums);
+      setFolderTemplate(saved.folderTemplate);
+      setNamePattern(saved.namePattern);
+      setIncludeDraft(saved.filters.include.join(', '));
+      setExcludeDraft(saved.filters.exclude.join(', '));
+      setMaxSizeDraft(saved.filters.maxSizeMb ? String(saved.filters.maxSizeMb) : '');
+      setMinAgeDraft(saved.filters.minAgeMinutes ? String(saved.filters.minAgeMinutes) : '');
+      setBackgroundEnabled(background.enabled);
+      setBackgroundCharging(background.chargingOnly);
+      setBackgroundInterval(background.intervalMinutes);
+      loadPendingJob();
     })();
 
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [profileId]);
 
   useEffect(() => {
     if (!syncRootId && roots.length) {
@@ -561,37 +267,229 @@ export default function SettingsScreen() {
     if (!roots.some((root) => root.id === syncRootId)) {
       const fallbackRoot = roots[0].id;
       setSyncRootId(fallbackRoot);
-      SecureStore.setItemAsync(CAMERA_SYNC_ROOT_KEY, fallbackRoot).catch(() => {});
+      setProfileItem(CAMERA_SYNC_ROOT_KEY, profileId, fallbackRoot).catch(() => {});
     }
   }, [roots, syncRootId]);
 
   const persistRoot = async (nextRoot: string) => {
     setSyncRootId(nextRoot);
-    await SecureStore.setItemAsync(CAMERA_SYNC_ROOT_KEY, nextRoot);
+    await setProfileItem(CAMERA_SYNC_ROOT_KEY, profileId, nextRoot);
   };
 
   const persistPath = async () => {
-    await SecureStore.setItemAsync(CAMERA_SYNC_PATH_KEY, syncPath.trim());
+    await setProfileItem(CAMERA_SYNC_PATH_KEY, profileId, syncPath.trim());
   };
 
   const persistIncludeVideos = async (nextValue: boolean) => {
     setIncludeVideos(nextValue);
-    await SecureStore.setItemAsync(CAMERA_SYNC_INCLUDE_VIDEOS_KEY, nextValue ? '1' : '0');
+    await setProfileItem(CAMERA_SYNC_INCLUDE_VIDEOS_KEY, profileId, nextValue ? '1' : '0');
   };
 
   const persistSyncSource = async (nextValue: SyncSource) => {
     setSyncSource(nextValue);
-    await SecureStore.setItemAsync(CAMERA_SYNC_SOURCE_KEY, nextValue);
+    await setProfileItem(CAMERA_SYNC_SOURCE_KEY, profileId, nextValue);
   };
 
   const persistMirrorRemote = async (nextValue: boolean) => {
     setMirrorRemote(nextValue);
-    await SecureStore.setItemAsync(CAMERA_SYNC_MIRROR_KEY, nextValue ? '1' : '0');
+    await setProfileItem(CAMERA_SYNC_MIRROR_KEY, profileId, nextValue ? '1' : '0');
+  };
+
+  const persistPruneToTrash = async (nextValue: boolean) => {
+    setPruneToTrash(nextValue);
+    await setProfileItem(CAMERA_SYNC_PRUNE_TRASH_KEY, profileId, nextValue ? '1' : '0');
+  };
+
+  const persistPruneMaxFiles = async () => {
+    const maxFiles = Math.max(0, Math.floor(Number(pruneMaxFilesDraft) || 0));
+    setPruneMaxFilesDraft(String(maxFiles));
+    setPruneLimits((prev) => ({ ...prev, maxFiles }));
+    await setProfileItem(CAMERA_SYNC_PRUNE_MAX_FILES_KEY, profileId, String(maxFiles));
+  };
+
+  const persistPruneMaxPercent = async () => {
+    const maxPercent = Math.min(100, Math.max(0, Math.floor(Number(pruneMaxPercentDraft) || 0)));
+    setPruneMaxPercentDraft(String(maxPercent));
+    setPruneLimits((prev) => ({ ...prev, maxPercent }));
+    await setProfileItem(CAMERA_SYNC_PRUNE_MAX_PERCENT_KEY, profileId, String(maxPercent));
+  };
+
+  const persistSyncConcurrency = async (nextValue: number) => {
+    setSyncConcurrency(nextValue);
+    await setProfileItem(CAMERA_SYNC_CONCURRENCY_KEY, profileId, String(nextValue));
+  };
+
+  const persistRateLimit = async () => {
+    const next = Math.max(0, Math.floor(Number(rateLimitDraft) || 0));
+    setRateLimitKBps(next);
+    setRateLimitDraft(next ? String(next) : '');
+    await setProfileItem(CAMERA_SYNC_RATE_LIMIT_KEY, profileId, String(next));
+  };
+
+  const toggleSyncCondition = async (
+    condition: 'wifiOnly' | 'unmeteredOnly' | 'chargingOnly',
+    key: string
+  ) => {
+    const nextValue = !syncConditions[condition];
+    setSyncConditions((prev) => ({ ...prev, [condition]: nextValue }));
+    await setProfileItem(key, profileId, nextValue ? '1' : '0');
+  };
+
+  const persistMinBattery = async () => {
+    const minBatteryPercent = Math.min(100, Math.max(0, Math.floor(Number(minBatteryDraft) || 0)));
+    setMinBatteryDraft(minBatteryPercent ? String(minBatteryPercent) : '');
+    setSyncConditions((prev) => ({ ...prev, minBatteryPercent }));
+    await setProfileItem(CAMERA_SYNC_MIN_BATTERY_KEY, profileId, String(minBatteryPercent));
   };
 
   const persistConflictPolicy = async (nextValue: SyncConflictPolicy) => {
     setConflictPolicy(nextValue);
-    await SecureStore.setItemAsync(CAMERA_SYNC_CONFLICT_POLICY_KEY, nextValue);
+    await setProfileItem(CAMERA_SYNC_CONFLICT_POLICY_KEY, profileId, nextValue);
+  };
+
+  const loadDeviceAlbums = async () => {
+    setAlbumsError('');
+    try {
+      const permission = await MediaLibrary.requestPermissionsAsync();
+      if (!permission.granted) {
+        setAlbumsError('Media library permission is required to list albums.');
+        return;
+      }
+      const albums = await MediaLibrary.getAlbumsAsync({ includeSmartAlbums: true });
+      setDeviceAlbums(albums.sort((a, b) => a.title.localeCompare(b.title)));
+    } catch (error: any) {
+      setAlbumsError(toErrorMessage(error, 'Failed to load albums.'));
+    }
+  };
+
+  const persistAlbums = async (next: CameraAlbum[]) => {
+    setSyncAlbums(next);
+    await setProfileItem(CAMERA_SYNC_ALBUMS_KEY, profileId, JSON.stringify(next));
+  };
+
+  const toggleAlbum = (album: MediaLibrary.Album) => {
+    if (syncAlbums.some((item) => item.id === album.id)) {
+      return persistAlbums(syncAlbums.filter((item) => item.id !== album.id));
+    }
+    const folder = album.title.replace(/[\\/:*?"<>|]+/g, '_').trim();
+    return persistAlbums([...syncAlbums, { id: album.id, title: album.title, folder }]);
+  };
+
+  const setAlbumFolder = (albumId: string, folder: string) => {
+    setSyncAlbums((prev) => prev.map((item) => (item.id === albumId ? { ...item, folder } : item)));
+  };
+
+  const persistFolderTemplate = async () => {
+    const next = folderTemplate.trim() || DEFAULT_FOLDER_TEMPLATE;
+    setFolderTemplate(next);
+    await setProfileItem(CAMERA_SYNC_FOLDER_TEMPLATE_KEY, profileId, next);
+  };
+
+  const persistNamePattern = async () => {
+    const next = namePattern.trim() || DEFAULT_NAME_PATTERN;
+    setNamePattern(next);
+    await setProfileItem(CAMERA_SYNC_NAME_PATTERN_KEY, profileId, next);
+  };
+
+  const persistIncludePatterns = async () => {
+    const include = parsePatternList(includeDraft);
+    setSyncFilters((prev) => ({ ...prev, include }));
+    await setProfileItem(CAMERA_SYNC_INCLUDE_KEY, profileId, include.join(', '));
+  };
+
+  const persistExcludePatterns = async () => {
+    const exclude = parsePatternList(excludeDraft);
+    setSyncFilters((prev) => ({ ...prev, exclude }));
+    await setProfileItem(CAMERA_SYNC_EXCLUDE_KEY, profileId, exclude.join(', '));
+  };
+
+  const persistMaxSize = async () => {
+    const maxSizeMb = Math.max(0, Number(maxSizeDraft) || 0);
+    setMaxSizeDraft(maxSizeMb ? String(maxSizeMb) : '');
+    setSyncFilters((prev) => ({ ...prev, maxSizeMb }));
+    await setProfileItem(CAMERA_SYNC_MAX_SIZE_KEY, profileId, String(maxSizeMb));
+  };
+
+  const persistMinAge = async () => {
+    const minAgeMinutes = Math.max(0, Number(minAgeDraft) || 0);
+    setMinAgeDraft(minAgeMinutes ? String(minAgeMinutes) : '');
+    setSyncFilters((prev) => ({ ...prev, minAgeMinutes }));
+    await setProfileItem(CAMERA_SYNC_MIN_AGE_KEY, profileId, String(minAgeMinutes));
+  };
+
+  const toggleFileType = async (type: SyncFileType) => {
+    const types = syncFilters.types.includes(type)
+      ? syncFilters.types.filter((item) => item !== type)
+      : SYNC_FILE_TYPES.filter((item) => item === type || syncFilters.types.includes(item));
+    setSyncFilters((prev) => ({ ...prev, types }));
+    await setProfileItem(CAMERA_SYNC_TYPES_KEY, profileId, types.join(','));
+  };
+
+  const persistBackgroundEnabled = async (nextValue: boolean) => {
+    setBackgroundError('');
+    try {
+      if (nextValue) {
+        await requestSyncNotificationPermission();
+        await registerBackgroundSync(backgroundInterval);
+      } else {
+        await unregisterBackgroundSync();
+      }
+    } catch (error: any) {
+      setBackgroundError(toErrorMessage(error, 'Failed to schedule background sync.'));
+      return;
+    }
+    setBackgroundEnabled(nextValue);
+    await setProfileItem(BACKGROUND_SYNC_ENABLED_KEY, profileId, nextValue ? '1' : '0');
+  };
+
+  const persistBackgroundCharging = async (nextValue: boolean) => {
+    setBackgroundCharging(nextValue);
+    await setProfileItem(BACKGROUND_SYNC_CHARGING_KEY, profileId, nextValue ? '1' : '0');
+  };
+
+  const persistBackgroundInterval = async (nextValue: number) => {
+    setBackgroundInterval(nextValue);
+    await setProfileItem(BACKGROUND_SYNC_INTERVAL_KEY, profileId, String(nextValue));
+    if (backgroundEnabled) {
+      await registerBackgroundSync(nextValue).catch((error) =>
+        setBackgroundError(toErrorMessage(error, 'Failed to schedule background sync.'))
+      );
+    }
+  };
+
+  useEffect(() => {
+    setServerUrlDraft(baseUrl);
+  }, [baseUrl]);
+
+  const saveServerUrl = async () => {
+    if (serverUrlSaving || serverUrlDraft.trim() === baseUrl) {
+      return;
+    }
+    setServerUrlSaving(true);
+    setServerUrlError('');
+    // A server with a saved profile is a plain profile switch; every session stays valid.
+    const nextUrl = normalizeBaseUrl(serverUrlDraft);
+    const saved = profiles.filter(
+      (profile) => profile.baseUrl === nextUrl && profile.id !== activeProfile?.id
+    );
+    const match = saved.find((profile) => profile.token) || saved[0];
+    if (match) {
+      await switchProfile(match.id);
+      setServerUrlSaving(false);
+      return;
+    }
+    // setBaseUrl probes the server and leaves the current one in place on failure.
+    // Switching can move the active profile, so remember whose session to end.
+    const previousProfileId = activeProfile?.id;
+    const result = await setBaseUrl(serverUrlDraft);
+    if (result.ok) {
+      if (previousProfileId) {
+        await signOut(previousProfileId);
+      }
+    } else {
+      setServerUrlError(result.error);
+    }
+    setServerUrlSaving(false);
   };
 
   const pickSyncFolder = async () => {
@@ -601,7 +499,7 @@ export default function SettingsScreen() {
         return;
       }
       setLocalFolderUri(selected.uri);
-      await SecureStore.setItemAsync(CAMERA_SYNC_FOLDER_URI_KEY, selected.uri);
+      await setProfileItem(CAMERA_SYNC_FOLDER_URI_KEY, profileId, selected.uri);
     } catch (error: any) {
       const message = String(error?.message || '');
       if (message.toLowerCase().includes('cancel')) {
@@ -615,548 +513,105 @@ export default function SettingsScreen() {
     }
   };
 
-  const fetchUploadStatusBatch = async ({
-    rootId,
-    uploadBasePath,
-    candidates,
-    overwrite,
-  }: {
-    rootId: string;
-    uploadBasePath: string;
-    candidates: UploadCandidate[];
-    overwrite: boolean;
-  }) => {
-    if (!candidates.length) {
-      return [];
-    }
-    const batchResult = await apiJson('/api/upload/status/batch', {
-      method: 'POST',
-      body: {
-        root: rootId,
-        items: candidates.map((candidate) =>
-          buildStatusPayload({
-            uploadBasePath,
-            candidate,
-            overwrite,
-          })
-        ),
-      },
-    });
-    if (!batchResult.ok) {
-      throw new Error(batchResult.error?.message || 'Failed to check upload status');
-    }
-    return normalizeBatchStatusItems(batchResult.data?.items, candidates.length);
+  const loadPendingJob = () => {
+    const job = readSyncJob();
+    setPendingJob(job && job.profileId === profileId && syncJobFileCount(job) ? job : null);
   };
 
-  const fetchRemoteFilesForMirror = async (rootId: string, basePath: string) => {
-    const remoteFiles = new Set<string>();
-    const queue: string[] = [basePath || ''];
-
-    while (queue.length && !cancelRef.current) {
-      const currentPath = queue.pop() || '';
-      let offset = 0;
-      while (!cancelRef.current) {
-        const listUrl = buildUrl('/api/list', {
-          root: rootId,
-          path: currentPath,
-          limit: LIST_PAGE_SIZE,
-          offset,
-          includeTotal: false,
-        });
-        const listResult = await apiJson(listUrl);
-        if (!listResult.ok) {
-          throw new Error(listResult.error?.message || 'Failed to list remote files for mirror mode');
-        }
-        const items = Array.isArray(listResult.data?.items) ? listResult.data.items : [];
-        for (const item of items) {
-          if (!item?.path || !item?.rootId) {
-            continue;
-          }
-          if (item.isDir) {
-            queue.push(item.path);
-          } else {
-            remoteFiles.add(String(item.path));
-          }
-        }
-        if (items.length < LIST_PAGE_SIZE) {
-          break;
-        }
-        offset += items.length;
-      }
-    }
+  // Files that failed before they could be planned are not part of the retry job.
+  const pendingFailures = pendingJob?.progress.failures || [];
+  const retryableFailures = pendingFailures.filter((failure) => failure.retryable !== false);
+  const unreadableFailures = pendingFailures.length - retryableFailures.length;
 
-    return remoteFiles;
+  const discardPendingJob = () => {
+    clearSyncJob();
+    setPendingJob(null);
   };
 
-  const runSync = async () => {
+  const runSync = async ({
+    resumeFrom = null,
+    fullRescan = false,
+    dryRun = false,
+  }: { resumeFrom?: SyncJob | null; fullRescan?: boolean; dryRun?: boolean } = {}) => {
     if (syncRunning) {
       return;
     }
-    if (!selectedRoot) {
+    if (isMediaSyncRunning()) {
       setSyncProgress({
         ...syncProgressBase(),
         stage: 'error',
-        error: 'Choose a destination root before syncing.',
+        error: 'A background sync is running. Try again when it finishes.',
       });
       return;
     }
-    if (!uploadEnabled) {
+    const targetRootId = resumeFrom ? resumeFrom.settings.rootId : selectedRoot?.id;
+    if (!targetRootId || !roots.some((root) => root.id === targetRootId)) {
       setSyncProgress({
         ...syncProgressBase(),
         stage: 'error',
-        error: 'Uploads are disabled on the server.',
+        error: 'Choose a destination root before syncing.',
       });
       return;
     }
-    if (syncSource === 'folder' && !localFolderUri) {
+    if (!uploadEnabled) {
       setSyncProgress({
         ...syncProgressBase(),
         stage: 'error',
-        error: 'Pick a local folder to sync first.',
+        error: 'Uploads are disabled on the server.',
       });
       return;
     }
-    const effectiveConflictPolicy: SyncConflictPolicy =
-      syncSource === 'folder' && mirrorRemote && conflictPolicy === 'rename'
-        ? 'overwrite'
-        : conflictPolicy;
-    const overwriteUploads = effectiveConflictPolicy === 'overwrite';
 
     cancelRef.current = false;
     setSyncRunning(true);
-    setSyncProgress({
-      ...syncProgressBase(),
-      stage: 'planning',
-      startedAt: Date.now(),
-      message:
-        syncSource === 'camera'
-          ? 'Checking media library access...'
-          : 'Scanning selected folder...',
-    });
-
     try {
-      const candidates: UploadCandidate[] = [];
-      const localMirrorTargets = new Set<string>();
-      let discovered = 0;
-      let plannedBytes = 0;
-      let skipped = 0;
-      let failed = 0;
-
-      const addReadyCandidate = (candidate: UploadCandidate, rawOffset: number, overwrite: boolean) => {
-        const offset = Math.max(0, Math.min(Number(rawOffset || 0), candidate.size));
-        candidate.initialOffset = offset;
-        candidate.overwrite = overwrite;
-        plannedBytes += Math.max(0, candidate.size - offset);
-        candidates.push(candidate);
+      const settings: MediaSyncSettings = resumeFrom?.settings || {
+          rootId: targetRootId,
+          basePath: syncPath,
+          source: syncSource,
+          includeVideos,
+          folderUri: localFolderUri,
+          mirror: mirrorRemote,
+          pruneLimits,
+          pruneToTrash,
+          conflictPolicy,
+          filters: syncFilters,
+          albums: syncAlbums,
+          folderTemplate,
+          namePattern,
+          concurrency: syncConcurrency,
+          rateLimitKBps,
+          conditions: syncConditions,
+        };
+      const options = {
+        getToken: () => tokenRef.current,
+        chunkBytes,
+        shouldStop: () => cancelRef.current,
+        onProgress: setSyncProgress,
+        profileId,
+        resumeFrom,
+        fullRescan,
       };
-
-      const resolveRenameCandidate = async (candidate: UploadCandidate) => {
-        for (let attempt = 1; attempt <= MAX_RENAME_ATTEMPTS && !cancelRef.current; attempt += 1) {
-          const renamedCandidate = renameCandidateForAttempt(candidate, attempt);
-          const statusUrl = makeStatusUrl({
-            rootId: selectedRoot.id,
-            uploadBasePath: uploadPathNormalized,
-            candidate: renamedCandidate,
-            overwrite: false,
-          });
-          const statusResult = await apiJson(statusUrl);
-          if (!statusResult.ok) {
-            if (statusResult.error?.code === 'exists') {
-              continue;
-            }
-            return { type: 'failed' as const };
-          }
-          const uploadStatus = String(statusResult.data?.status || 'ready');
-          const offset = Math.max(0, Number(statusResult.data?.offset || 0));
-          if (uploadStatus === 'complete' || offset >= renamedCandidate.size) {
-            return { type: 'skipped' as const };
-          }
-          return { type: 'ready' as const, candidate: renamedCandidate, offset };
-        }
-        return { type: 'failed' as const };
-      };
-
-      const applyStatusBatch = async (batchCandidates: UploadCandidate[]) => {
-        if (!batchCandidates.length) {
-          return;
-        }
-        const statusItems = await fetchUploadStatusBatch({
-          rootId: selectedRoot.id,
-          uploadBasePath: uploadPathNormalized,
-          candidates: batchCandidates,
-          overwrite: overwriteUploads,
-        });
-        for (let index = 0; index < batchCandidates.length && !cancelRef.current; index += 1) {
-          const candidate = batchCandidates[index];
-          const statusItem = statusItems[index];
-          if (!statusItem) {
-            failed += 1;
-            continue;
-          }
-          const uploadStatus = String(
-            statusItem?.status || (statusItem?.ok ? 'ready' : statusItem?.error?.code || 'error')
-          );
-          const offset = Math.max(0, Number(statusItem?.offset || 0));
-
-          if (uploadStatus === 'ready') {
-            addReadyCandidate(candidate, offset, overwriteUploads);
-            continue;
-          }
-          if (uploadStatus === 'complete' || offset >= candidate.size) {
-            skipped += 1;
-            continue;
-          }
-          if (uploadStatus === 'exists') {
-            if (effectiveConflictPolicy === 'skip') {
-              skipped += 1;
-              continue;
-            }
-            if (effectiveConflictPolicy === 'rename') {
-              const renamed = await resolveRenameCandidate(candidate);
-              if (renamed.type === 'ready') {
-                addReadyCandidate(renamed.candidate, renamed.offset, false);
-              } else if (renamed.type === 'skipped') {
-                skipped += 1;
-              } else {
-                failed += 1;
-              }
-              continue;
-            }
-            failed += 1;
-            continue;
-          }
-          failed += 1;
-        }
-      };
-
-      if (syncSource === 'camera') {
-        const permission = await MediaLibrary.requestPermissionsAsync();
-        if (!permission.granted) {
-          setSyncProgress({
-            ...syncProgressBase(),
-            stage: 'error',
-            error: 'Media library permission is required for camera sync.',
-            finishedAt: Date.now(),
-          });
-          return;
-        }
-
-        const mediaTypes: MediaLibrary.MediaTypeValue[] = includeVideos
-          ? [MediaLibrary.MediaType.photo, MediaLibrary.MediaType.video]
-          : [MediaLibrary.MediaType.photo];
-
-        let pageCursor: string | null = null;
-        let hasNext = true;
-        const pendingCandidates: UploadCandidate[] = [];
-
-        while (hasNext && !cancelRef.current) {
-          const page = await MediaLibrary.getAssetsAsync({
-            first: SCAN_PAGE_SIZE,
-            after: pageCursor || undefined,
-            sortBy: [MediaLibrary.SortBy.creationTime],
-            mediaType: mediaTypes,
-          });
-
-          hasNext = page.hasNextPage;
-          pageCursor = page.endCursor;
-
-          for (const asset of page.assets) {
-            if (cancelRef.current) {
-              break;
-            }
-            discovered += 1;
-            if (discovered % 10 === 0) {
-              setSyncStage({
-                stage: 'planning',
-                discovered,
-                planned: candidates.length,
-                skipped,
-                failed,
-                plannedBytes,
-                message: `Planning uploads (${discovered} inspected)...`,
-              });
-            }
-
-            let assetInfo: MediaLibrary.AssetInfo;
-            try {
-              assetInfo = await MediaLibrary.getAssetInfoAsync(asset.id);
-            } catch {
-              failed += 1;
-              continue;
-            }
-
-            const localUri = assetInfo.localUri || assetInfo.uri || asset.uri;
-            if (!localUri) {
-              failed += 1;
-              continue;
-            }
-
-            const localFile = new FsFile(localUri);
-            const size = Number(localFile.size || 0);
-            if (!Number.isFinite(size) || size < 0) {
-              failed += 1;
-              continue;
-            }
-
-            const createdAt = normalizeTimestamp(assetInfo.creationTime || asset.creationTime);
-            const monthBucket = monthBucketFromTime(createdAt);
-            const fileName = sanitizeFileName(assetInfo.filename || asset.filename, asset.id);
-            const capturedAtIso = new Date(createdAt).toISOString();
-
-            const candidate: UploadCandidate = {
-              kind: 'camera',
-              displayName: fileName,
-              localUri,
-              size,
-              initialOffset: 0,
-              remoteTarget: '',
-              monthBucket,
-              capturedAtIso,
-              overwrite: false,
-            };
-            pendingCandidates.push(candidate);
-            if (pendingCandidates.length >= STATUS_BATCH_SIZE) {
-              const batch = pendingCandidates.splice(0, pendingCandidates.length);
-              await applyStatusBatch(batch);
-            }
-          }
-        }
-        if (!cancelRef.current && pendingCandidates.length) {
-          await applyStatusBatch(pendingCandidates.splice(0, pendingCandidates.length));
-        }
-      } else {
-        const scanned = await collectLocalFolderFiles(localFolderUri);
-        discovered = scanned.discovered;
-        failed += scanned.failed;
-
-        const folderCandidates = buildFolderCandidates({
-          files: scanned.files,
-          uploadBasePath: uploadPathNormalized,
-        });
-        const pendingCandidates: UploadCandidate[] = [];
-
-        for (let index = 0; index < folderCandidates.length && !cancelRef.current; index += 1) {
-          const candidate = folderCandidates[index];
-          localMirrorTargets.add(candidate.remoteTarget);
-          pendingCandidates.push(candidate);
-
-          if ((index + 1) % 10 === 0) {
-            setSyncStage({
-              stage: 'planning',
-              discovered,
-              planned: candidates.length,
-              skipped,
-              failed,
-              plannedBytes,
-              message: `Planning folder sync (${index + 1}/${folderCandidates.length})...`,
-            });
-          }
-          if (pendingCandidates.length >= STATUS_BATCH_SIZE) {
-            const batch = pendingCandidates.splice(0, pendingCandidates.length);
-            await applyStatusBatch(batch);
-          }
-        }
-        if (!cancelRef.current && pendingCandidates.length) {
-          await applyStatusBatch(pendingCandidates.splice(0, pendingCandidates.length));
-        }
-      }
-
-      if (cancelRef.current) {
-        setSyncProgress((prev) => ({
-          ...prev,
-          stage: 'cancelled',
-          message: 'Sync cancelled.',
-          finishedAt: Date.now(),
-        }));
+      if (dryRun) {
+        const { preview } = await previewMediaSync(settings, options);
+        setSyncPreview(preview);
         return;
       }
-
-      setSyncProgress((prev) => ({
-        ...prev,
-        stage: 'uploading',
-        discovered,
-        planned: candidates.length,
-        skipped,
-        failed,
-        plannedBytes,
-        uploadedBytes: 0,
-        uploaded: 0,
-        currentFileName: '',
-        currentFileBytes: 0,
-        currentFileUploaded: 0,
-        message: candidates.length
-          ? `Uploading ${candidates.length} file(s)...`
-          : 'No new files to upload.',
-      }));
-
-      let uploaded = 0;
-      let uploadedBytes = 0;
-
-      for (const candidate of candidates) {
-        if (cancelRef.current) {
-          break;
-        }
-
-        let offset = Math.max(0, Math.min(candidate.initialOffset, candidate.size));
-        let handle: ReturnType<FsFile['open']> | null = null;
-
-        try {
-          const localFile = new FsFile(candidate.localUri);
-          handle = localFile.open();
-          handle.offset = offset;
-
-          setSyncStage({
-            stage: 'uploading',
-            currentFileName: candidate.displayName,
-            currentFileBytes: candidate.size,
-            currentFileUploaded: offset,
-            uploaded,
-            uploadedBytes,
-          });
-
-          while (offset < candidate.size && !cancelRef.current) {
-            const nextChunkBytes = Math.min(chunkBytes, candidate.size - offset);
-            const chunk = handle.readBytes(nextChunkBytes);
-            if (!chunk?.length) {
-              throw new Error('Failed to read file chunk');
-            }
-
-            const chunkUrl = makeChunkUrl({
-              rootId: selectedRoot.id,
-              uploadBasePath: uploadPathNormalized,
-              candidate,
-              offset,
-              overwrite: candidate.overwrite,
-            });
-
-            const chunkResult = await postUploadChunk({ token, url: chunkUrl, bytes: chunk });
-            if (!chunkResult.ok) {
-              if (chunkResult.error?.code === 'offset_mismatch') {
-                const statusUrl = makeStatusUrl({
-                  rootId: selectedRoot.id,
-                  uploadBasePath: uploadPathNormalized,
-                  candidate,
-                  overwrite: candidate.overwrite,
-                });
-                const statusResult = await apiJson(statusUrl);
-                if (!statusResult.ok) {
-                  throw new Error(statusResult.error?.message || 'Failed to recover upload offset');
-                }
-                const serverOffset = Math.max(0, Number(statusResult.data?.offset || 0));
-                if (serverOffset <= offset) {
-                  throw new Error('Upload offset mismatch could not be resolved');
-                }
-                const advanced = serverOffset - offset;
-                offset = serverOffset;
-                handle.offset = offset;
-                uploadedBytes += advanced;
-                setSyncStage({
-                  uploadedBytes,
-                  currentFileUploaded: offset,
-                });
-                continue;
-              }
-              throw new Error(chunkResult.error?.message || 'Chunk upload failed');
-            }
-
-            const nextOffset = Math.max(offset + chunk.length, Number(chunkResult.data?.offset || 0));
-            const advanced = Math.max(0, nextOffset - offset);
-            offset = nextOffset;
-            handle.offset = offset;
-            uploadedBytes += advanced;
-            setSyncStage({
-              uploadedBytes,
-              currentFileUploaded: offset,
-            });
-          }
-
-          if (offset >= candidate.size) {
-            uploaded += 1;
-            setSyncStage({
-              uploaded,
-              currentFileUploaded: candidate.size,
-            });
-          }
-        } finally {
-          safeCloseHandle(handle);
-        }
-      }
-
-      let remoteDeleted = 0;
-      let remoteDeleteFailed = 0;
-
-      if (!cancelRef.current && syncSource === 'folder' && mirrorRemote) {
-        setSyncStage({
-          stage: 'mirroring',
-          message: 'Mirror sync (prune): pruning remote files not in local folder...',
-        });
-
-        const remoteFiles = await fetchRemoteFilesForMirror(selectedRoot.id, uploadPathNormalized);
-
-        const toDelete = Array.from(remoteFiles).filter((remotePath) => !localMirrorTargets.has(remotePath));
-        for (let index = 0; index < toDelete.length && !cancelRef.current; index += DELETE_BATCH_SIZE) {
-          const batch = toDelete.slice(index, index + DELETE_BATCH_SIZE);
-          const deleteResult = await apiJson('/api/delete', {
-            method: 'POST',
-            body: {
-              root: selectedRoot.id,
-              paths: batch,
-            },
-          });
-          if (deleteResult.ok) {
-            remoteDeleted += batch.length;
-          } else {
-            remoteDeleteFailed += batch.length;
-          }
-          setSyncStage({
-            remoteDeleted,
-            remoteDeleteFailed,
-            message: `Mirror sync (prune): pruning remote files (${Math.min(index + DELETE_BATCH_SIZE, toDelete.length)}/${toDelete.length})...`,
-          });
-        }
-      }
-
-      if (cancelRef.current) {
-        setSyncProgress((prev) => ({
-          ...prev,
-          stage: 'cancelled',
-          uploaded,
-          uploadedBytes,
-          remoteDeleted,
-          remoteDeleteFailed,
-          message: 'Sync cancelled.',
-          finishedAt: Date.now(),
-        }));
-      } else {
-        const mirrorSummary =
-          syncSource === 'folder' && mirrorRemote
-            ? ` Mirror sync (prune) removed ${remoteDeleted} file(s).`
-            : '';
-        setSyncProgress((prev) => ({
-          ...prev,
-          stage: 'done',
-          uploaded,
-          uploadedBytes,
-          remoteDeleted,
-          remoteDeleteFailed,
-          currentFileName: '',
-          currentFileBytes: 0,
-          currentFileUploaded: 0,
-          message: `Sync complete. Uploaded ${uploaded}/${candidates.length} file(s).${mirrorSummary}`,
-          finishedAt: Date.now(),
-        }));
+      const result = await runMediaSync(settings, options);
+      if (result.stage === 'done' || result.stage === 'cancelled') {
+        await refresh();
       }
-
-      await refresh();
-    } catch (error: any) {
-      setSyncProgress((prev) => ({
-        ...prev,
-        stage: 'error',
-        error: toErrorMessage(error, 'Sync failed.'),
-        finishedAt: Date.now(),
-      }));
     } finally {
       setSyncRunning(false);
+      loadPendingJob();
+    }
+  };
+
+  const confirmPreview = () => {
+    const job = syncPreview?.job;
+    setSyncPreview(null);
+    if (job) {
+      runSync({ resumeFrom: job });
     }
   };
 
@@ -1184,13 +639,103 @@ export default function SettingsScreen() {
         <View style={[styles.card, { backgroundColor: cardBackground }]}> 
           <Text style={styles.sectionTitle}>Server</Text>
           <Text style={[styles.label, { color: metaColor }]}>Base URL</Text>
-          <Text style={[styles.value, { color: palette.text }]}>{API_BASE_URL}</Text>
+          <View style={styles.urlRow}>
+            <TextInput
+              value={serverUrlDraft}
+              onChangeText={setServerUrlDraft}
+              placeholder="http://192.168.1.10:4170"
+              placeholderTextColor={metaColor}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              style={[
+                styles.input,
+                styles.urlInput,
+                {
+                  color: palette.text,
+                  backgroundColor: inputBackground,
+                  borderColor: inputBorder,
+                },
+              ]}
+            />
+            <Pressable
+              style={[
+                styles.urlSaveBtn,
+                {
+                  backgroundColor:
+                    serverUrlDraft.trim() !== baseUrl ? palette.tint : '#8D93A1',
+                },
+              ]}
+              onPress={saveServerUrl}
+              disabled={serverUrlSaving || serverUrlDraft.trim() === baseUrl}
+            >
+              {serverUrlSaving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.syncBtnLabel}>Save</Text>
+              )}
+            </Pressable>
+          </View>
+          {serverUrlError ? <Text style={styles.errorText}>{serverUrlError}</Text> : null}
+          <Text style={[styles.hint, { color: metaColor }]}>
+            Changing to a new server signs you out of the current one; a server with a saved
+            profile switches to that profile instead.
+          </Text>
           <Text style={[styles.label, { color: metaColor }]}>API Version</Text>
           <Text style={[styles.value, { color: palette.text }]}>{info?.apiVersion ?? '—'}</Text>
           <Text style={[styles.label, { color: metaColor }]}>Server Version</Text>
           <Text style={[styles.value, { color: palette.text }]}>{info?.serverVersion ?? '—'}</Text>
         </View>
 
+        <View style={[styles.card, { backgroundColor: cardBackground }]}> 
+          <Text style={styles.sectionTitle}>Accounts</Text>
+          {profiles.map((profile) => {
+            const isActive = profile.id === profileId;
+            return (
+              <View key={profile.id} style={styles.profileRow}>
+                <Pressable
+                  style={styles.profileInfo}
+                  onPress={() => switchProfile(profile.id)}
+                  disabled={isActive || syncRunning}
+                >
+                  <Text style={[styles.value, { color: palette.text }]} numberOfLines={1}>
+                    {profile.username || 'Guest'}
+                    {isActive ? '  ·  Active' : ''}
+                  </Text>
+                  <Text style={[styles.hint, { color: metaColor }]} numberOfLines={1}>
+                    {profile.baseUrl}
+                    {profile.token ? '' : '  ·  Signed out'}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.cancelBtn, { borderColor: inputBorder }]}
+                  onPress={() => removeProfile(profile.id)}
+                  disabled={syncRunning}
+                >
+                  <Text style={styles.cancelBtnLabel}>Remove</Text>
+                </Pressable>
+              </View>
+            );
+          })}
+          <Pressable
+            style={[styles.folderBtn, styles.addProfileBtn, { borderColor: inputBorder }]}
+            onPress={() =>
+              router.push({
+                pathname: '/(auth)/login',
+                params: { mode: 'add', returnTo: '/(tabs)/settings' },
+              })
+            }
+            disabled={syncRunning}
+          >
+            <Text style={[styles.folderBtnLabel, { color: palette.text }]}>
+              Add server or account
+            </Text>
+          </Pressable>
+          <Text style={[styles.hint, { color: metaColor }]}>
+            Tap an account to switch to it. Media sync settings are kept per account.
+          </Text>
+        </View>
+
         <View style={[styles.card, { backgroundColor: cardBackground }]}> 
           <Text style={styles.sectionTitle}>Indexer</Text>
           <Text style={[styles.label, { color: metaColor }]}>Last Scan</Text>
@@ -1288,7 +833,7 @@ export default function SettingsScreen() {
           {syncSource === 'camera' ? (
             <>
               <Text style={[styles.hint, { color: metaColor }]}> 
-                Uploads are grouped into YYYY-MM folders under this base path.
+                Uploads are grouped under this base path by the folder template below.
               </Text>
               <View style={styles.toggleRow}>
                 <View style={styles.toggleTextWrap}>
@@ -1311,6 +856,102 @@ export default function SettingsScreen() {
                   </Text>
                 </Pressable>
               </View>
+
+              <Text style={[styles.label, { color: metaColor }]}>Albums</Text>
+              <Text style={[styles.hint, { color: metaColor }]}>
+                {syncAlbums.length
+                  ? 'Each album uploads into its own subfolder of the base path.'
+                  : 'No album selected: the whole library is synced.'}
+              </Text>
+              {syncAlbums.map((album) => (
+                <View key={album.id} style={styles.albumRow}>
+                  <Text style={[styles.albumTitle, { color: palette.text }]} numberOfLines={1}>
+                    {album.title}
+                  </Text>
+                  <TextInput
+                    value={album.folder}
+                    onChangeText={(value) => setAlbumFolder(album.id, value)}
+                    onBlur={() => persistAlbums(syncAlbums)}
+                    placeholder="(base path)"
+                    placeholderTextColor={metaColor}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    style={[
+                      styles.input,
+                      styles.albumInput,
+                      { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+                    ]}
+                  />
+                </View>
+              ))}
+              {deviceAlbums ? (
+                <View style={styles.rootRow}>
+                  {deviceAlbums.map((album) => {
+                    const selected = syncAlbums.some((item) => item.id === album.id);
+                    return (
+                      <Pressable
+                        key={album.id}
+                        onPress={() => toggleAlbum(album)}
+                        style={[
+                          styles.rootChip,
+                          { backgroundColor: chipBackground },
+                          selected && { backgroundColor: palette.tint },
+                        ]}
+                      >
+                        <Text
+                          style={[styles.rootChipLabel, { color: selected ? '#fff' : palette.text }]}
+                        >
+                          {album.title} ({album.assetCount})
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              ) : (
+                <Pressable
+                  style={[styles.folderBtn, { borderColor: inputBorder, backgroundColor: inputBackground }]}
+                  onPress={loadDeviceAlbums}
+                >
+                  <Text style={[styles.folderBtnLabel, { color: palette.text }]}>Choose albums</Text>
+                </Pressable>
+              )}
+              {albumsError ? <Text style={styles.errorText}>{albumsError}</Text> : null}
+
+              <Text style={[styles.label, { color: metaColor }]}>Folder template</Text>
+              <TextInput
+                value={folderTemplate}
+                onChangeText={setFolderTemplate}
+                onBlur={persistFolderTemplate}
+                placeholder={DEFAULT_FOLDER_TEMPLATE}
+                placeholderTextColor={metaColor}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={[
+                  styles.input,
+                  { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+                ]}
+              />
+              <Text style={[styles.label, { color: metaColor }]}>File name pattern</Text>
+              <TextInput
+                value={namePattern}
+                onChangeText={setNamePattern}
+                onBlur={persistNamePattern}
+                placeholder={DEFAULT_NAME_PATTERN}
+                placeholderTextColor={metaColor}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={[
+                  styles.input,
+                  { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+                ]}
+              />
+              <Text style={[styles.hint, { color: metaColor }]}>
+                Tokens: {NAMING_TOKENS.map((token) => `{${token}}`).join(' ')}. The extension is
+                always kept.
+              </Text>
+              <Text style={[styles.preview, { color: palette.text }]} numberOfLines={2}>
+                A photo taken now lands at /{namingPreview}
+              </Text>
             </>
           ) : (
             <>
@@ -1333,7 +974,7 @@ export default function SettingsScreen() {
                 <View style={styles.toggleTextWrap}>
                   <Text style={[styles.toggleTitle, { color: palette.text }]}>Mirror sync (prune)</Text>
                   <Text style={[styles.hint, { color: metaColor }]}> 
-                    Move remote files to trash when they are no longer in this folder.
+                    Remove remote files when they are no longer in this folder.
                   </Text>
                 </View>
                 <Pressable
@@ -1350,9 +991,177 @@ export default function SettingsScreen() {
                   </Text>
                 </Pressable>
               </View>
+              {mirrorRemote ? (
+                <>
+                  <View style={styles.toggleRow}>
+                    <View style={styles.toggleTextWrap}>
+                      <Text style={[styles.toggleTitle, { color: palette.text }]}>
+                        Keep pruned files in trash
+                      </Text>
+                      <Text style={[styles.hint, { color: metaColor }]}>
+                        Move them to {TRASH_FOLDER} on the server, where they can be restored.
+                      </Text>
+                    </View>
+                    <Pressable
+                      onPress={() => persistPruneToTrash(!pruneToTrash)}
+                      style={[
+                        styles.toggleBtn,
+                        { backgroundColor: pruneToTrash ? palette.tint : chipBackground },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.toggleBtnLabel,
+                          { color: pruneToTrash ? '#fff' : palette.text },
+                        ]}
+                      >
+                        {pruneToTrash ? 'On' : 'Off'}
+                      </Text>
+                    </Pressable>
+                  </View>
+                  <View style={styles.filterRow}>
+                    <View style={styles.filterField}>
+                      <Text style={[styles.label, { color: metaColor }]}>Max files per prune</Text>
+                      <TextInput
+                        value={pruneMaxFilesDraft}
+                        onChangeText={setPruneMaxFilesDraft}
+                        onBlur={persistPruneMaxFiles}
+                        keyboardType="number-pad"
+                        style={[
+                          styles.input,
+                          {
+                            color: palette.text,
+                            backgroundColor: inputBackground,
+                            borderColor: inputBorder,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <View style={styles.filterField}>
+                      <Text style={[styles.label, { color: metaColor }]}>Max % of remote</Text>
+                      <TextInput
+                        value={pruneMaxPercentDraft}
+                        onChangeText={setPruneMaxPercentDraft}
+                        onBlur={persistPruneMaxPercent}
+                        keyboardType="number-pad"
+                        style={[
+                          styles.input,
+                          {
+                            color: palette.text,
+                            backgroundColor: inputBackground,
+                            borderColor: inputBorder,
+                          },
+                        ]}
+                      />
+                    </View>
+                  </View>
+                  <Text style={[styles.hint, { color: metaColor }]}>
+                    Pruning is skipped entirely when it would remove more than either limit. Use 0
+                    for no limit.
+                  </Text>
+                  <Pressable
+                    style={[styles.folderBtn, { borderColor: inputBorder }]}
+                    onPress={() =>
+                      selectedRoot &&
+                      router.push({ pathname: '/sync-trash', params: { root: selectedRoot.id } })
+                    }
+                    disabled={!selectedRoot}
+                  >
+                    <Text style={[styles.folderBtnLabel, { color: palette.text }]}>
+                      Open sync trash
+                    </Text>
+                  </Pressable>
+                </>
+              ) : null}
             </>
           )}
 
+          <Text style={[styles.label, { color: metaColor }]}>Include patterns (optional)</Text>
+          <TextInput
+            value={includeDraft}
+            onChangeText={setIncludeDraft}
+            onBlur={persistIncludePatterns}
+            placeholder="DCIM/**, *.jpg"
+            placeholderTextColor={metaColor}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[
+              styles.input,
+              { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+            ]}
+          />
+          <Text style={[styles.label, { color: metaColor }]}>Exclude patterns</Text>
+          <TextInput
+            value={excludeDraft}
+            onChangeText={setExcludeDraft}
+            onBlur={persistExcludePatterns}
+            placeholder=".thumbnails, *.tmp"
+            placeholderTextColor={metaColor}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[
+              styles.input,
+              { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+            ]}
+          />
+          <View style={styles.filterRow}>
+            <View style={styles.filterField}>
+              <Text style={[styles.label, { color: metaColor }]}>Max size (MB)</Text>
+              <TextInput
+                value={maxSizeDraft}
+                onChangeText={setMaxSizeDraft}
+                onBlur={persistMaxSize}
+                placeholder="No limit"
+                placeholderTextColor={metaColor}
+                keyboardType="number-pad"
+                style={[
+                  styles.input,
+                  { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+                ]}
+              />
+            </View>
+            <View style={styles.filterField}>
+              <Text style={[styles.label, { color: metaColor }]}>Min age (minutes)</Text>
+              <TextInput
+                value={minAgeDraft}
+                onChangeText={setMinAgeDraft}
+                onBlur={persistMinAge}
+                placeholder="None"
+                placeholderTextColor={metaColor}
+                keyboardType="number-pad"
+                style={[
+                  styles.input,
+                  { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+                ]}
+              />
+            </View>
+          </View>
+          <Text style={[styles.label, { color: metaColor }]}>File types</Text>
+          <View style={styles.rootRow}>
+            {SYNC_FILE_TYPES.map((type) => {
+              const selected = syncFilters.types.includes(type);
+              return (
+                <Pressable
+                  key={type}
+                  onPress={() => toggleFileType(type)}
+                  style={[
+                    styles.rootChip,
+                    { backgroundColor: chipBackground },
+                    selected && { backgroundColor: palette.tint },
+                  ]}
+                >
+                  <Text style={[styles.rootChipLabel, { color: selected ? '#fff' : palette.text }]}>
+                    {FILE_TYPE_LABELS[type]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={[styles.hint, { color: metaColor }]}>
+            Separate patterns with commas. "*" matches within a name, "**" across folders. Filtered
+            files are counted as skipped.
+          </Text>
+
           <Text style={[styles.label, { color: metaColor }]}>Conflict policy</Text>
           <View style={styles.rootRow}>
             <Pressable
@@ -1416,6 +1225,229 @@ export default function SettingsScreen() {
             </Text>
           ) : null}
 
+          <Text style={[styles.label, { color: metaColor }]}>Parallel uploads</Text>
+          <View style={styles.rootRow}>
+            {SYNC_CONCURRENCY_LEVELS.map((level) => (
+              <Pressable
+                key={level}
+                onPress={() => persistSyncConcurrency(level)}
+                style={[
+                  styles.rootChip,
+                  { backgroundColor: chipBackground },
+                  syncConcurrency === level && { backgroundColor: palette.tint },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.rootChipLabel,
+                    { color: syncConcurrency === level ? '#fff' : palette.text },
+                  ]}
+                >
+                  {level}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={[styles.label, { color: metaColor }]}>Upload limit (KB/s)</Text>
+          <TextInput
+            value={rateLimitDraft}
+            onChangeText={setRateLimitDraft}
+            onBlur={persistRateLimit}
+            placeholder="No limit"
+            placeholderTextColor={metaColor}
+            keyboardType="number-pad"
+            style={[
+              styles.input,
+              { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+            ]}
+          />
+          <Text style={[styles.hint, { color: metaColor }]}>
+            More parallel uploads help on fast networks. The limit is shared by all of them; set
+            one on a mobile hotspot. Chunk size adapts to the measured speed.
+          </Text>
+
+          {(
+            [
+              ['wifiOnly', CAMERA_SYNC_WIFI_ONLY_KEY, 'Wi-Fi only', 'Pause while on any other network.'],
+              [
+                'unmeteredOnly',
+                CAMERA_SYNC_UNMETERED_ONLY_KEY,
+                'Not on metered networks',
+                'Pause on mobile data and tethering; Wi-Fi and Ethernet are allowed.',
+              ],
+              [
+                'chargingOnly',
+                CAMERA_SYNC_CHARGING_ONLY_KEY,
+                'Only while charging',
+                'Pause when the device is unplugged.',
+              ],
+            ] as const
+          ).map(([condition, key, title, hint]) => (
+            <View key={condition} style={styles.toggleRow}>
+              <View style={styles.toggleTextWrap}>
+                <Text style={[styles.toggleTitle, { color: palette.text }]}>{title}</Text>
+                <Text style={[styles.hint, { color: metaColor }]}>{hint}</Text>
+              </View>
+              <Pressable
+                onPress={() => toggleSyncCondition(condition, key)}
+                style={[
+                  styles.toggleBtn,
+                  { backgroundColor: syncConditions[condition] ? palette.tint : chipBackground },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.toggleBtnLabel,
+                    { color: syncConditions[condition] ? '#fff' : palette.text },
+                  ]}
+                >
+                  {syncConditions[condition] ? 'On' : 'Off'}
+                </Text>
+              </Pressable>
+            </View>
+          ))}
+          <Text style={[styles.label, { color: metaColor }]}>Minimum battery (%)</Text>
+          <TextInput
+            value={minBatteryDraft}
+            onChangeText={setMinBatteryDraft}
+            onBlur={persistMinBattery}
+            placeholder="None"
+            placeholderTextColor={metaColor}
+            keyboardType="number-pad"
+            style={[
+              styles.input,
+              { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+            ]}
+          />
+          <Text style={[styles.hint, { color: metaColor }]}>
+            A running sync pauses when these stop being met and continues when they are met again.
+            Charging always satisfies the battery minimum.
+          </Text>
+
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleTextWrap}>
+              <Text style={[styles.toggleTitle, { color: palette.text }]}>Background sync</Text>
+              <Text style={[styles.hint, { color: metaColor }]}>
+                Run this sync periodically on Wi-Fi or Ethernet and post a summary notification.
+              </Text>
+            </View>
+            <Pressable
+              onPress={() => persistBackgroundEnabled(!backgroundEnabled)}
+              style={[
+                styles.toggleBtn,
+                {
+                  backgroundColor: backgroundEnabled ? palette.tint : chipBackground,
+                },
+              ]}
+            >
+              <Text style={[styles.toggleBtnLabel, { color: backgroundEnabled ? '#fff' : palette.text }]}>
+                {backgroundEnabled ? 'On' : 'Off'}
+              </Text>
+            </Pressable>
+          </View>
+          {backgroundError ? (
+            <Text style={[styles.hint, { color: '#C03D3D' }]}>{backgroundError}</Text>
+          ) : null}
+          {backgroundEnabled ? (
+            <>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleTextWrap}>
+                  <Text style={[styles.toggleTitle, { color: palette.text }]}>Only while charging</Text>
+                </View>
+                <Pressable
+                  onPress={() => persistBackgroundCharging(!backgroundCharging)}
+                  style={[
+                    styles.toggleBtn,
+                    {
+                      backgroundColor: backgroundCharging ? palette.tint : chipBackground,
+                    },
+                  ]}
+                >
+                  <Text
+                    style={[styles.toggleBtnLabel, { color: backgroundCharging ? '#fff' : palette.text }]}
+                  >
+                    {backgroundCharging ? 'On' : 'Off'}
+                  </Text>
+                </Pressable>
+              </View>
+              <Text style={[styles.label, { color: metaColor }]}>Run every</Text>
+              <View style={styles.rootRow}>
+                {BACKGROUND_SYNC_INTERVALS.map((minutes) => (
+                  <Pressable
+                    key={minutes}
+                    onPress={() => persistBackgroundInterval(minutes)}
+                    style={[
+                      styles.rootChip,
+                      { backgroundColor: chipBackground },
+                      backgroundInterval === minutes && { backgroundColor: palette.tint },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.rootChipLabel,
+                        { color: backgroundInterval === minutes ? '#fff' : palette.text },
+                      ]}
+                    >
+                      {minutes / 60}h
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Text style={[styles.hint, { color: metaColor }]}>
+                Android decides the exact timing; runs may be delayed to save battery.
+              </Text>
+            </>
+          ) : null}
+
+          {pendingJob && !syncRunning ? (
+            <View style={[styles.resumeCard, { borderColor: inputBorder }]}>
+              <Text style={[styles.toggleTitle, { color: palette.text }]}>
+                {pendingJob.failedOnly ? 'Failed uploads' : 'Interrupted sync'}
+              </Text>
+              <Text style={[styles.hint, { color: metaColor }]}>
+                {pendingJob.failedOnly
+                  ? `${syncJobFileCount(pendingJob)} file(s) failed in the sync of ${formatDate(pendingJob.savedAt)}.`
+                  : `${syncJobFileCount(pendingJob)} file(s) left from ${formatDate(pendingJob.savedAt)}.`}
+              </Text>
+              {pendingJob.failedOnly
+                ? retryableFailures.slice(0, FAILURES_SHOWN).map((failure, index) => (
+                    <Text
+                      key={`${failure.name}-${index}`}
+                      style={[styles.hint, { color: metaColor }]}
+                      numberOfLines={1}
+                    >
+                      {failure.name}: {failure.reason}
+                    </Text>
+                  ))
+                : null}
+              {pendingJob.failedOnly && unreadableFailures ? (
+                <Text style={[styles.hint, { color: metaColor }]}>
+                  {unreadableFailures} more could not be read and are not retried here; the next
+                  sync looks at them again.
+                </Text>
+              ) : null}
+              <View style={styles.resumeActions}>
+                <Pressable
+                  style={[styles.resumeBtn, { backgroundColor: palette.tint }]}
+                  onPress={() => runSync({ resumeFrom: pendingJob })}
+                  disabled={!uploadEnabled}
+                >
+                  <Text style={styles.syncBtnLabel}>
+                    {pendingJob.failedOnly ? 'Retry failed' : 'Resume'}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.resumeBtn, { backgroundColor: chipBackground }]}
+                  onPress={discardPendingJob}
+                >
+                  <Text style={[styles.toggleBtnLabel, { color: palette.text }]}>
+                    {pendingJob.failedOnly ? 'Dismiss' : 'Discard'}
+                  </Text>
+                </Pressable>
+              </View>
+            </View>
+          ) : null}
+
           <View style={styles.syncActions}>
             <Pressable
               style={[
@@ -1427,7 +1459,7 @@ export default function SettingsScreen() {
                       : '#8D93A1',
                 },
               ]}
-              onPress={runSync}
+              onPress={() => runSync()}
               disabled={
                 !uploadEnabled ||
                 !selectedRoot ||
@@ -1445,8 +1477,35 @@ export default function SettingsScreen() {
               <Pressable style={[styles.cancelBtn, { borderColor: '#C03D3D' }]} onPress={cancelSync}>
                 <Text style={styles.cancelBtnLabel}>Cancel</Text>
               </Pressable>
-            ) : null}
+            ) : (
+              <>
+                <Pressable
+                  style={[styles.rescanBtn, { borderColor: inputBorder }]}
+                  onPress={() => runSync({ dryRun: true })}
+                  disabled={
+                    !uploadEnabled || !selectedRoot || (syncSource === 'folder' && !localFolderUri)
+                  }
+                >
+                  <Text style={[styles.rescanBtnLabel, { color: palette.text }]}>Preview</Text>
+                </Pressable>
+                {syncSource === 'camera' ? (
+                  <Pressable
+                    style={[styles.rescanBtn, { borderColor: inputBorder }]}
+                    onPress={() => runSync({ fullRescan: true })}
+                    disabled={!uploadEnabled || !selectedRoot}
+                  >
+                    <Text style={[styles.rescanBtnLabel, { color: palette.text }]}>Full rescan</Text>
+                  </Pressable>
+                ) : null}
+              </>
+            )}
           </View>
+          {syncSource === 'camera' && !syncRunning ? (
+            <Text style={[styles.hint, { color: metaColor }]}>
+              Sync now only checks photos added or edited since the last complete run. Full rescan
+              re-checks the whole library against the server.
+            </Text>
+          ) : null}
 
           {!uploadEnabled ? (
             <Text style={styles.errorText}>Uploads are disabled by server configuration.</Text>
@@ -1454,7 +1513,9 @@ export default function SettingsScreen() {
 
           <View style={styles.progressCard}>
             <Text style={[styles.progressTitle, { color: palette.text }]}>
-              {syncProgress.stage === 'uploading'
+              {syncRunning && syncProgress.pausedReason
+                ? 'Paused'
+                : syncProgress.stage === 'uploading'
                 ? 'Uploading'
                 : syncProgress.stage === 'planning'
                 ? 'Planning'
@@ -1477,6 +1538,14 @@ export default function SettingsScreen() {
               Discovered: {syncProgress.discovered}  Planned: {syncProgress.planned}  Skipped:{' '}
               {syncProgress.skipped}  Failed: {syncProgress.failed}
             </Text>
+            {Object.keys(syncProgress.skipReasons).length ? (
+              <Text style={[styles.progressMeta, { color: metaColor }]}>
+                Skipped because:{' '}
+                {Object.entries(syncProgress.skipReasons)
+                  .map(([reason, count]) => `${reason} (${count})`)
+                  .join(', ')}
+              </Text>
+            ) : null}
             <Text style={[styles.progressMeta, { color: metaColor }]}>
               Uploaded files: {syncProgress.uploaded}/{syncProgress.planned || 0}
             </Text>
@@ -1489,6 +1558,23 @@ export default function SettingsScreen() {
                 Mirror deleted: {syncProgress.remoteDeleted}  Mirror failed: {syncProgress.remoteDeleteFailed}
               </Text>
             ) : null}
+            {syncProgress.pruneBlocked ? (
+              <Text style={styles.errorText}>{syncProgress.pruneBlocked}</Text>
+            ) : null}
+            {syncProgress.failures.slice(0, FAILURES_SHOWN).map((failure, index) => (
+              <Text
+                key={`${failure.name}-${index}`}
+                style={[styles.progressMeta, { color: '#C03D3D' }]}
+                numberOfLines={2}
+              >
+                {failure.name}: {failure.reason}
+              </Text>
+            ))}
+            {syncProgress.failed > FAILURES_SHOWN ? (
+              <Text style={[styles.progressMeta, { color: metaColor }]}>
+                and {syncProgress.failed - FAILURES_SHOWN} more failed
+              </Text>
+            ) : null}
 
             <View style={[styles.progressTrack, { backgroundColor: inputBorder }]}>
               <View
@@ -1533,10 +1619,15 @@ export default function SettingsScreen() {
           </View>
         </View>
 
-        <Pressable style={[styles.signOut, { backgroundColor: palette.tint }]} onPress={signOut}>
+        <Pressable style={[styles.signOut, { backgroundColor: palette.tint }]} onPress={() => signOut()}>
           <Text style={styles.signOutText}>Sign out</Text>
         </Pressable>
       </ScrollView>
+      <SyncPreviewModal
+        preview={syncPreview}
+        onConfirm={confirmPreview}
+        onClose={() => setSyncPreview(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -1601,6 +1692,35 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 6,
   },
+  urlRow: {
+    marginTop: 4,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  urlInput: {
+    flex: 1,
+  },
+  urlSaveBtn: {
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    minWidth: 64,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  profileRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  addProfileBtn: {
+    marginTop: 12,
+  },
   folderPickerWrap: {
     marginTop: 10,
   },
@@ -1643,9 +1763,53 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontSize: 13,
   },
+  preview: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  albumRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+  },
+  albumTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  albumInput: {
+    flex: 1.4,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  filterField: {
+    flex: 1,
+  },
+  resumeCard: {
+    marginTop: 14,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  resumeActions: {
+    marginTop: 8,
+    flexDirection: 'row',
+    gap: 10,
+  },
+  resumeBtn: {
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
   syncActions: {
     marginTop: 14,
     flexDirection: 'row',
+    flexWrap: 'wrap',
     alignItems: 'center',
     gap: 10,
   },
@@ -1675,6 +1839,18 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontSize: 13,
   },
+  rescanBtn: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rescanBtnLabel: {
+    fontWeight: '700',
+    fontSize: 13,
+  },
   progressCard: {
     marginTop: 14,
     borderRadius: 12,
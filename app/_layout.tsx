@@ -9,8 +9,13 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { AuthProvider } from '@/lib/auth';
+import { ConnectionProvider } from '@/lib/connection';
 import { ServerProvider } from '@/lib/server';
 import { PlayerProvider } from '@/lib/player';
+import { DownloadsProvider } from '@/lib/downloads';
+import { UploadsProvider } from '@/lib/uploads';
+// Background tasks must be defined when the JS bundle loads, before any screen mounts.
+import '@/lib/backgroundSync';
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -51,21 +56,29 @@ export default function RootLayout() {
 
 function RootLayoutNav() {
   return (
-    <AuthProvider>
-      <ServerProvider>
-        <PlayerProvider>
-          <GestureHandlerRootView style={{ flex: 1 }}>
-            <SafeAreaProvider>
-              <ThemeProvider value={DarkTheme}>
-                <Stack screenOptions={{ headerShown: false }}>
-                  <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                </Stack>
-              </ThemeProvider>
-            </SafeAreaProvider>
-          </GestureHandlerRootView>
-        </PlayerProvider>
-      </ServerProvider>
-    </AuthProvider>
+    <ConnectionProvider>
+      <AuthProvider>
+        <ServerProvider>
+          <PlayerProvider>
+            <DownloadsProvider>
+              <UploadsProvider>
+                <GestureHandlerRootView style={{ flex: 1 }}>
+                  <SafeAreaProvider>
+                    <ThemeProvider value={DarkTheme}>
+                      <Stack screenOptions={{ headerShown: false }}>
+                        <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+                        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                        <Stack.Screen name="downloads" options={{ headerShown: false }} />
+                        <Stack.Screen name="sync-trash" options={{ headerShown: false }} />
+                      </Stack>
+                    </ThemeProvider>
+                  </SafeAreaProvider>
+                </GestureHandlerRootView>
+              </UploadsProvider>
+            </DownloadsProvider>
+          </PlayerProvider>
+        </ServerProvider>
+      </AuthProvider>
+    </ConnectionProvider>
   );
 }
@@ -0,0 +1,238 @@
+import React from 'react';
+import { Alert, FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { DownloadJob, useDownloads } from '@/lib/downloads';
+import { formatBytes } from '@/lib/format';
+
+const STATUS_LABELS: Record<DownloadJob['status'], string> = {
+  queued: 'Waiting',
+  downloading: 'Downloading',
+  paused: 'Paused',
+  failed: 'Failed',
+  done: 'Done',
+};
+
+function folderLabel(uri: string) {
+  // SAF tree URIs end in an encoded "primary:Download/Sub" style document id.
+  const decoded = decodeURIComponent(uri.split('/').pop() || uri);
+  return decoded.includes(':') ? decoded.split(':').pop() || decoded : decoded;
+}
+
+export default function DownloadsScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { jobs, folderUri, pause, resume, remove, clearFinished, open, chooseFolder, resetFolder } =
+    useDownloads();
+  const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+  const trackColor = colorScheme === 'dark' ? '#252A33' : '#E3E7EF';
+  const hasFinished = jobs.some((job) => job.status === 'done');
+
+  const openJob = (job: DownloadJob) => {
+    open(job.id).catch((error) => {
+      Alert.alert('Cannot open file', error?.message || 'No app can open this file.');
+    });
+  };
+
+  const renderJob = ({ item }: { item: DownloadJob }) => {
+    const percent = item.size > 0 ? Math.min(1, item.received / item.size) : 0;
+    const canPause = item.status === 'downloading' || item.status === 'queued';
+    const canResume = item.status === 'paused' || item.status === 'failed';
+    return (
+      <Pressable
+        style={[styles.row, { backgroundColor: cardBackground }]}
+        onPress={() => (item.status === 'done' ? openJob(item) : undefined)}
+      >
+        <View style={styles.rowHeader}>
+          <Text style={[styles.rowTitle, { color: palette.text }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Pressable style={styles.rowButton} onPress={() => remove(item.id)}>
+            <FontAwesome name="times" size={14} color="#A0A4AC" />
+          </Pressable>
+        </View>
+        <Text style={[styles.rowMeta, { color: metaColor }]} numberOfLines={1}>
+          {STATUS_LABELS[item.status]} · {formatBytes(item.received)}
+          {item.size > 0 ? ` of ${formatBytes(item.size)}` : ''}
+        </Text>
+        {item.status !== 'done' ? (
+          <View style={[styles.progressTrack, { backgroundColor: trackColor }]}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${Math.round(percent * 100)}%`,
+                  backgroundColor: item.status === 'failed' ? '#C03D3D' : palette.tint,
+                },
+              ]}
+            />
+          </View>
+        ) : null}
+        {item.error ? <Text style={styles.errorText}>{item.error}</Text> : null}
+        <View style={styles.rowActions}>
+          {canPause ? (
+            <Pressable onPress={() => pause(item.id)}>
+              <Text style={[styles.actionLabel, { color: palette.tint }]}>Pause</Text>
+            </Pressable>
+          ) : null}
+          {canResume ? (
+            <Pressable onPress={() => resume(item.id)}>
+              <Text style={[styles.actionLabel, { color: palette.tint }]}>
+                {item.status === 'failed' ? 'Retry' : 'Resume'}
+              </Text>
+            </Pressable>
+          ) : null}
+          {item.status === 'done' ? (
+            <Pressable onPress={() => openJob(item)}>
+              <Text style={[styles.actionLabel, { color: palette.tint }]}>Open</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safe, { backgroundColor: palette.background }]}>
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="arrow-left" size={16} color={palette.tint} />
+        </Pressable>
+        <Text style={[styles.title, { color: palette.text }]}>Downloads</Text>
+        {hasFinished ? (
+          <Pressable onPress={clearFinished}>
+            <Text style={[styles.actionLabel, { color: palette.tint }]}>Clear done</Text>
+          </Pressable>
+        ) : null}
+      </View>
+      <View style={[styles.folderCard, { backgroundColor: cardBackground }]}>
+        <Text style={[styles.folderLabel, { color: metaColor }]}>Save to</Text>
+        <Text style={[styles.folderValue, { color: palette.text }]} numberOfLines={1}>
+          {folderUri ? folderLabel(folderUri) : 'App Downloads folder'}
+        </Text>
+        <View style={styles.rowActions}>
+          <Pressable onPress={chooseFolder}>
+            <Text style={[styles.actionLabel, { color: palette.tint }]}>Choose folder</Text>
+          </Pressable>
+          {folderUri ? (
+            <Pressable onPress={resetFolder}>
+              <Text style={[styles.actionLabel, { color: palette.tint }]}>Use app folder</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </View>
+      <FlatList
+        data={jobs}
+        keyExtractor={(item) => item.id}
+        renderItem={renderJob}
+        contentContainerStyle={jobs.length ? styles.list : styles.listEmpty}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            Long-press files in the Files tab, or tap a document, to download it.
+          </Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+    paddingRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  folderCard: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 14,
+    borderRadius: 16,
+  },
+  folderLabel: {
+    fontSize: 12,
+  },
+  folderValue: {
+    marginTop: 2,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  listEmpty: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  row: {
+    padding: 14,
+    borderRadius: 16,
+    marginBottom: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowButton: {
+    padding: 4,
+  },
+  rowMeta: {
+    marginTop: 4,
+    fontSize: 12,
+  },
+  progressTrack: {
+    marginTop: 8,
+    height: 6,
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  errorText: {
+    marginTop: 6,
+    color: '#C03D3D',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  rowActions: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 18,
+  },
+  actionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#7D8390',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { useApi } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+import {
+  deleteTrashRun,
+  listTrashRunFiles,
+  listTrashRuns,
+  restoreTrashedFiles,
+  TRASH_FOLDER,
+  TrashedFile,
+  TrashMoveResult,
+  TrashRun,
+} from '@/lib/upload';
+import { toErrorMessage } from '@/lib/upload/sync';
+
+export default function SyncTrashScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { root } = useLocalSearchParams<{ root?: string }>();
+  const { api } = useApi();
+  const [runs, setRuns] = useState<TrashRun[] | null>(null);
+  const [files, setFiles] = useState<Record<string, TrashedFile[]>>({});
+  const [expanded, setExpanded] = useState('');
+  const [busy, setBusy] = useState('');
+  const [error, setError] = useState('');
+  const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+
+  const loadRuns = useCallback(async () => {
+    if (!root) {
+      setRuns([]);
+      return;
+    }
+    setError('');
+    try {
+      setRuns(await listTrashRuns(api, root));
+      setFiles({});
+    } catch (err: any) {
+      setError(toErrorMessage(err, 'Failed to load the sync trash.'));
+      setRuns([]);
+    }
+  }, [api, root]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const loadFiles = async (run: TrashRun) => {
+    if (!root) {
+      return [];
+    }
+    const list = await listTrashRunFiles(api, root, run.path);
+    setFiles((prev) => ({ ...prev, [run.path]: list }));
+    return list;
+  };
+
+  const toggleRun = async (run: TrashRun) => {
+    if (expanded === run.path) {
+      setExpanded('');
+      return;
+    }
+    setExpanded(run.path);
+    if (!files[run.path]) {
+      try {
+        await loadFiles(run);
+      } catch (err: any) {
+        setError(toErrorMessage(err, 'Failed to list trashed files.'));
+      }
+    }
+  };
+
+  const reportRestore = (result: TrashMoveResult) => {
+    if (result.failed) {
+      Alert.alert(
+        'Restore incomplete',
+        `Restored ${result.moved} file(s); ${result.failed} could not be moved back. ` +
+          'A file with the same name may already exist there.'
+      );
+    }
+  };
+
+  const restore = async (run: TrashRun, selection?: TrashedFile[]) => {
+    if (!root) {
+      return;
+    }
+    setBusy(run.path);
+    setError('');
+    try {
+      const list = selection || files[run.path] || (await loadFiles(run));
+      const result = await restoreTrashedFiles(api, root, run.path, list);
+      reportRestore(result);
+      if (!selection) {
+        // Moving files out leaves their folders behind; the run is only removed
+        // once a fresh listing shows nothing else is left in it.
+        const left = await listTrashRunFiles(api, root, run.path);
+        if (!left.length) {
+          await deleteTrashRun(api, root, run.path);
+        }
+      }
+      await loadRuns();
+    } catch (err: any) {
+      setError(toErrorMessage(err, 'Failed to restore files.'));
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const emptyRun = (run: TrashRun) => {
+    if (!root) {
+      return;
+    }
+    Alert.alert('Delete permanently?', `Everything in ${run.name} will be deleted.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setBusy(run.path);
+          setError('');
+          try {
+            await deleteTrashRun(api, root, run.path);
+            await loadRuns();
+          } catch (err: any) {
+            setError(toErrorMessage(err, 'Failed to empty this trash folder.'));
+          } finally {
+            setBusy('');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderRun = ({ item }: { item: TrashRun }) => {
+    const runFiles = files[item.path];
+    const isExpanded = expanded === item.path;
+    return (
+      <View style={[styles.row, { backgroundColor: cardBackground }]}>
+        <Pressable style={styles.rowHeader} onPress={() => toggleRun(item)}>
+          <FontAwesome
+            name={isExpanded ? 'chevron-down' : 'chevron-right'}
+            size={12}
+            color={metaColor}
+          />
+          <Text style={[styles.rowTitle, { color: palette.text }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          {busy === item.path ? <ActivityIndicator size="small" color={palette.tint} /> : null}
+        </Pressable>
+        {runFiles ? (
+          <Text style={[styles.rowMeta, { color: metaColor }]}>
+            {runFiles.length} file(s) ·{' '}
+            {formatBytes(runFiles.reduce((total, file) => total + file.size, 0))}
+          </Text>
+        ) : null}
+        {isExpanded && runFiles
+          ? runFiles.map((file) => (
+              <View key={file.path} style={styles.fileRow}>
+                <Text style={[styles.fileName, { color: palette.text }]} numberOfLines={1}>
+                  /{file.originalPath}
+                </Text>
+                <Pressable onPress={() => restore(item, [file])} disabled={!!busy}>
+                  <Text style={[styles.actionLabel, { color: palette.tint }]}>Restore</Text>
+                </Pressable>
+              </View>
+            ))
+          : null}
+        <View style={styles.rowActions}>
+          <Pressable onPress={() => restore(item)} disabled={!!busy}>
+            <Text style={[styles.actionLabel, { color: palette.tint }]}>Restore all</Text>
+          </Pressable>
+          <Pressable onPress={() => emptyRun(item)} disabled={!!busy}>
+            <Text style={[styles.actionLabel, { color: '#C03D3D' }]}>Delete permanently</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safe, { backgroundColor: palette.background }]}>
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="arrow-left" size={16} color={palette.tint} />
+        </Pressable>
+        <Text style={[styles.title, { color: palette.text }]}>Sync trash</Text>
+        <Pressable onPress={loadRuns} disabled={!!busy}>
+          <Text style={[styles.actionLabel, { color: palette.tint }]}>Refresh</Text>
+        </Pressable>
+      </View>
+      <Text style={[styles.intro, { color: metaColor }]}>
+        Files mirror sync pruned into {TRASH_FOLDER}, one folder per run. Restoring moves them back
+        to where they were.
+      </Text>
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+      {runs === null ? (
+        <ActivityIndicator style={styles.loading} color={palette.tint} />
+      ) : (
+        <FlatList
+          data={runs}
+          keyExtractor={(item) => item.path}
+          renderItem={renderRun}
+          contentContainerStyle={runs.length ? styles.list : styles.listEmpty}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {root ? 'Nothing has been moved to the trash.' : 'Choose a sync root in Settings.'}
+            </Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+    paddingRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  intro: {
+    marginHorizontal: 20,
+    marginBottom: 12,
+    fontSize: 13,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  listEmpty: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  row: {
+    padding: 14,
+    borderRadius: 16,
+    marginBottom: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    marginTop: 4,
+    fontSize: 12,
+  },
+  fileRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 13,
+  },
+  rowActions: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 18,
+  },
+  actionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    marginHorizontal: 20,
+    marginBottom: 8,
+    color: '#C03D3D',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#7D8390',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Entry } from '@/lib/endpoints';
+
+export type FileAction = 'rename' | 'move' | 'copy' | 'newFolder' | 'delete';
+
+const ACTIONS: {
+  action: FileAction;
+  label: string;
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+}[] = [
+  { action: 'rename', label: 'Rename', icon: 'pencil' },
+  { action: 'move', label: 'Move to…', icon: 'arrow-right' },
+  { action: 'copy', label: 'Copy to…', icon: 'copy' },
+  { action: 'newFolder', label: 'New folder here', icon: 'folder' },
+  { action: 'delete', label: 'Delete', icon: 'trash' },
+];
+
+type FileActionSheetProps = {
+  entry: Entry | null;
+  onClose: () => void;
+  onAction: (action: FileAction, entry: Entry) => void;
+};
+
+export default function FileActionSheet({ entry, onClose, onAction }: FileActionSheetProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+  const sheetBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+
+  return (
+    <Modal visible={Boolean(entry)} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.sheet,
+            { backgroundColor: sheetBackground, paddingBottom: Math.max(insets.bottom, 16) },
+          ]}
+        >
+          <Text style={[styles.title, { color: palette.text }]} numberOfLines={1}>
+            {entry?.name || entry?.path}
+          </Text>
+          <Text style={[styles.subtitle, { color: metaColor }]} numberOfLines={1}>
+            {entry?.isDir ? 'Folder' : 'File'} · /{entry?.path}
+          </Text>
+          {ACTIONS.map(({ action, label, icon }) => {
+            const destructive = action === 'delete';
+            return (
+              <Pressable
+                key={action}
+                style={styles.option}
+                onPress={() => {
+                  if (entry) {
+                    onAction(action, entry);
+                  }
+                }}
+              >
+                <FontAwesome
+                  name={icon}
+                  size={16}
+                  color={destructive ? '#C03D3D' : palette.tint}
+                  style={styles.optionIcon}
+                />
+                <Text
+                  style={[styles.optionLabel, { color: destructive ? '#C03D3D' : palette.text }]}
+                >
+                  {label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 18,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  subtitle: {
+    marginTop: 4,
+    marginBottom: 8,
+    fontSize: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  optionIcon: {
+    width: 28,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
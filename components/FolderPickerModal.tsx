@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { useApi, useLatestRequest } from '@/lib/api';
+import { isAbortedError } from '@/lib/apiClient';
+import { Entry } from '@/lib/endpoints';
+import { parentPath } from '@/lib/filesRoute';
+import { useServer } from '@/lib/server';
+
+const FOLDER_PAGE_LIMIT = 200;
+
+type FolderPickerModalProps = {
+  visible: boolean;
+  title: string;
+  confirmLabel: string;
+  initialRootId: string;
+  initialPath: string;
+  onCancel: () => void;
+  onSelect: (rootId: string, path: string) => void;
+};
+
+export default function FolderPickerModal({
+  visible,
+  title,
+  confirmLabel,
+  initialRootId,
+  initialPath,
+  onCancel,
+  onSelect,
+}: FolderPickerModalProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { api } = useApi();
+  const { roots } = useServer();
+  const [rootId, setRootId] = useState(initialRootId);
+  const [path, setPath] = useState(initialPath);
+  const [folders, setFolders] = useState<Entry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const beginRequest = useLatestRequest([visible, rootId, path]);
+  const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const chipBackground = colorScheme === 'dark' ? '#1F232B' : '#E9EDF5';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+
+  useEffect(() => {
+    if (visible) {
+      setRootId(initialRootId);
+      setPath(initialPath);
+    }
+  }, [visible, initialRootId, initialPath]);
+
+  useEffect(() => {
+    if (!visible || !rootId) {
+      return;
+    }
+    (async () => {
+      setLoading(true);
+      setError('');
+      const signal = beginRequest();
+      const result = await api.listDirectory(
+        { root: rootId, path, limit: FOLDER_PAGE_LIMIT },
+        { signal }
+      );
+      if (isAbortedError(result)) {
+        return;
+      }
+      if (result.ok) {
+        setFolders(result.data.items.filter((entry) => entry.isDir));
+      } else {
+        setFolders([]);
+        setError(result.error?.message || 'Failed to load folders');
+      }
+      setLoading(false);
+    })();
+  }, [visible, rootId, path]);
+
+  const activeRoot = roots.find((root) => root.id === rootId) || null;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+      <SafeAreaView style={[styles.safe, { backgroundColor: palette.background }]}>
+        <View style={styles.header}>
+          <Pressable onPress={onCancel} style={styles.headerButton}>
+            <Text style={[styles.headerLabel, { color: palette.tint }]}>Cancel</Text>
+          </Pressable>
+          <Text style={[styles.title, { color: palette.text }]}>{title}</Text>
+          <View style={styles.headerButton} />
+        </View>
+        <View style={styles.rootRow}>
+          {roots.map((root) => (
+            <Pressable
+              key={root.id}
+              onPress={() => {
+                setRootId(root.id);
+                setPath('');
+              }}
+              style={[
+                styles.rootChip,
+                { backgroundColor: root.id === rootId ? palette.tint : chipBackground },
+              ]}
+            >
+              <Text
+                style={[styles.rootLabel, { color: root.id === rootId ? '#fff' : palette.text }]}
+              >
+                {root.name || root.id}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <Pressable
+          style={styles.pathRow}
+          onPress={() => setPath(parentPath(path))}
+          disabled={!path}
+        >
+          {path ? <FontAwesome name="arrow-left" size={14} color={palette.tint} /> : null}
+          <Text style={[styles.pathLabel, { color: metaColor }]} numberOfLines={1}>
+            {activeRoot?.name || rootId}/{path}
+          </Text>
+        </Pressable>
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator size="large" />
+          </View>
+        ) : (
+          <FlatList
+            data={folders}
+            keyExtractor={(item) => item.path}
+            contentContainerStyle={styles.list}
+            renderItem={({ item }) => (
+              <Pressable
+                style={[styles.row, { backgroundColor: cardBackground }]}
+                onPress={() => setPath(item.path)}
+              >
+                <FontAwesome name="folder" size={16} color={palette.tint} />
+                <Text style={[styles.rowTitle, { color: palette.text }]} numberOfLines={1}>
+                  {item.name}
+                </Text>
+                <FontAwesome name="chevron-right" size={12} color="#A0A4AC" />
+              </Pressable>
+            )}
+            ListEmptyComponent={
+              <Text style={[styles.emptyText, { color: error ? '#C03D3D' : metaColor }]}>
+                {error || 'No subfolders.'}
+              </Text>
+            }
+          />
+        )}
+        <Pressable
+          style={[styles.confirm, { backgroundColor: palette.tint }]}
+          onPress={() => onSelect(rootId, path)}
+          disabled={!rootId}
+        >
+          <Text style={styles.confirmLabel}>{confirmLabel}</Text>
+        </Pressable>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerButton: {
+    minWidth: 64,
+  },
+  headerLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  rootRow: {
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  rootChip: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  rootLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  pathRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  pathLabel: {
+    flex: 1,
+    fontSize: 13,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    marginBottom: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  confirm: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  confirmLabel: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+
+type NamePromptModalProps = {
+  visible: boolean;
+  title: string;
+  confirmLabel: string;
+  initialValue?: string;
+  busy?: boolean;
+  error?: string;
+  onCancel: () => void;
+  onSubmit: (value: string) => void;
+};
+
+export default function NamePromptModal({
+  visible,
+  title,
+  confirmLabel,
+  initialValue = '',
+  busy = false,
+  error = '',
+  onCancel,
+  onSubmit,
+}: NamePromptModalProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const [value, setValue] = useState(initialValue);
+  const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const inputBackground = colorScheme === 'dark' ? '#12161C' : '#FFFFFF';
+  const inputBorder = colorScheme === 'dark' ? '#252A33' : '#E3E7EF';
+
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  const canSubmit = Boolean(value.trim()) && value.trim() !== initialValue && !busy;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.backdrop}
+      >
+        <View style={[styles.card, { backgroundColor: cardBackground }]}>
+          <Text style={[styles.title, { color: palette.text }]}>{title}</Text>
+          <TextInput
+            value={value}
+            onChangeText={setValue}
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            selectTextOnFocus
+            onSubmitEditing={() => canSubmit && onSubmit(value.trim())}
+            style={[
+              styles.input,
+              { color: palette.text, backgroundColor: inputBackground, borderColor: inputBorder },
+            ]}
+            placeholderTextColor="#8A8F98"
+          />
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          <View style={styles.actions}>
+            <Pressable style={styles.cancel} onPress={onCancel} disabled={busy}>
+              <Text style={[styles.cancelLabel, { color: palette.tint }]}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.confirm, { backgroundColor: canSubmit ? palette.tint : '#8D93A1' }]}
+              onPress={() => onSubmit(value.trim())}
+              disabled={!canSubmit}
+            >
+              {busy ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.confirmLabel}>{confirmLabel}</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  card: {
+    borderRadius: 20,
+    padding: 20,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  error: {
+    marginTop: 8,
+    color: '#C03D3D',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  actions: {
+    marginTop: 16,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cancel: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  cancelLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  confirm: {
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    minWidth: 88,
+    alignItems: 'center',
+  },
+  confirmLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -14,6 +14,7 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Video } from 'expo-av';
 import { PinchGestureHandler, State } from 'react-native-gesture-handler';
 import { buildUrl } from '@/lib/apiClient';
+import { useAuth } from '@/lib/auth';
 
 export type PhotoItem = {
   rootId: string;
@@ -70,6 +71,7 @@ export default function PhotoViewerModal({
   onClose,
   authHeaders,
 }: PhotoViewerModalProps) {
+  const { verifySession } = useAuth();
   const screen = Dimensions.get('window');
   const listRef = useRef<FlatList<PhotoItem>>(null);
   const safeIndex = useMemo(() => {
@@ -149,6 +151,7 @@ export default function PhotoViewerModal({
                       useNativeControls
                       resizeMode="contain"
                       shouldPlay={index === currentIndex}
+                      onError={verifySession}
                       style={[styles.video, { height: screen.height * 0.6 }]}
                     />
                   </Zoomable>
@@ -160,6 +163,7 @@ export default function PhotoViewerModal({
                         headers: authHeaders,
                       }}
                       style={[styles.image, { height: screen.height * 0.6 }]}
+                      onError={verifySession}
                     />
                   </Zoomable>
                 )}
@@ -0,0 +1,202 @@
+import React, { useMemo } from 'react';
+import { Modal, Pressable, SectionList, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { formatBytes } from '@/lib/format';
+import { PreviewUpload, SyncPreview } from '@/lib/upload/sync';
+
+const RESOLUTION_LABELS: Record<PreviewUpload['resolution'], string> = {
+  new: 'New',
+  resume: 'Resumes partial upload',
+  overwrite: 'Overwrites if present',
+  rename: 'Conflict, uploads as',
+};
+
+type PreviewRow = { key: string; title: string; meta: string; danger?: boolean };
+
+type SyncPreviewModalProps = {
+  preview: SyncPreview | null;
+  onConfirm: () => void;
+  onClose: () => void;
+};
+
+export default function SyncPreviewModal({ preview, onConfirm, onClose }: SyncPreviewModalProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+  const background = colorScheme === 'dark' ? '#0F1217' : '#F4F6FA';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+
+  const sections = useMemo(() => {
+    if (!preview) {
+      return [];
+    }
+    const uploadBytes = preview.uploads.reduce((total, item) => total + item.bytes, 0);
+    const result: Array<{ title: string; data: PreviewRow[] }> = [
+      {
+        title: `Upload ${preview.uploads.length} file(s), ${formatBytes(uploadBytes)}`,
+        data: preview.uploads.map((item, index) => ({
+          key: `u${index}`,
+          title: item.name,
+          meta:
+            item.resolution === 'rename'
+              ? `${RESOLUTION_LABELS.rename} /${item.target} · ${formatBytes(item.bytes)}`
+              : `${RESOLUTION_LABELS[item.resolution]} · /${item.target} · ${formatBytes(item.bytes)}`,
+        })),
+      },
+      {
+        title: preview.job?.settings.pruneToTrash
+          ? `Move to trash: ${preview.deletions.length} file(s)`
+          : `Delete from server: ${preview.deletions.length} file(s)`,
+        data: preview.deletions.map((path, index) => ({
+          key: `d${index}`,
+          title: path.split('/').pop() || path,
+          meta: `/${path}`,
+          danger: true,
+        })),
+      },
+      {
+        title: `Skip ${preview.skipped.length} file(s)`,
+        data: preview.skipped.map((item, index) => ({
+          key: `s${index}`,
+          title: item.name,
+          meta: item.reason,
+        })),
+      },
+    ];
+    return result.filter((section) => section.data.length);
+  }, [preview]);
+
+  const willPrune = !!preview?.deletions.length && !preview.pruneBlocked;
+  const writes = preview ? preview.uploads.length + (willPrune ? preview.deletions.length : 0) : 0;
+
+  return (
+    <Modal visible={!!preview} animationType="slide" onRequestClose={onClose}>
+      <View
+        style={[
+          styles.container,
+          {
+            backgroundColor: background,
+            paddingTop: insets.top + 12,
+            paddingBottom: insets.bottom + 12,
+          },
+        ]}
+      >
+        <Text style={[styles.title, { color: palette.text }]}>Sync preview</Text>
+        <Text style={[styles.subtitle, { color: metaColor }]}>
+          Nothing has been uploaded or deleted yet. Review the plan, then confirm to run it.
+        </Text>
+        {preview?.pruneBlocked ? (
+          <Text style={[styles.subtitle, styles.warning]}>{preview.pruneBlocked}</Text>
+        ) : null}
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.key}
+          style={styles.list}
+          renderSectionHeader={({ section }) => (
+            <Text
+              style={[styles.sectionTitle, { color: palette.text, backgroundColor: background }]}
+            >
+              {section.title}
+            </Text>
+          )}
+          renderItem={({ item }) => (
+            <View style={styles.row}>
+              <Text
+                style={[styles.rowTitle, { color: item.danger ? '#C03D3D' : palette.text }]}
+                numberOfLines={1}
+              >
+                {item.title}
+              </Text>
+              <Text style={[styles.rowMeta, { color: metaColor }]} numberOfLines={2}>
+                {item.meta}
+              </Text>
+            </View>
+          )}
+          ListEmptyComponent={
+            <Text style={[styles.subtitle, { color: metaColor }]}>
+              Everything is already in sync.
+            </Text>
+          }
+        />
+        <View style={styles.actions}>
+          <Pressable style={[styles.button, { borderColor: metaColor }]} onPress={onClose}>
+            <Text style={[styles.buttonLabel, { color: palette.text }]}>Close</Text>
+          </Pressable>
+          {writes ? (
+            <Pressable
+              style={[
+                styles.button,
+                {
+                  borderColor: willPrune ? '#C03D3D' : palette.tint,
+                  backgroundColor: willPrune ? '#C03D3D' : palette.tint,
+                },
+              ]}
+              onPress={onConfirm}
+            >
+              <Text style={[styles.buttonLabel, { color: '#fff' }]}>
+                {willPrune ? 'Upload and prune' : 'Start upload'}
+              </Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  warning: {
+    color: '#C03D3D',
+    fontWeight: '600',
+  },
+  list: {
+    flex: 1,
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    paddingVertical: 8,
+  },
+  row: {
+    paddingVertical: 6,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 12,
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  buttonLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
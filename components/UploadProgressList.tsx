@@ -0,0 +1,156 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Colors from '@/constants/Colors';
+import { useColorScheme } from '@/components/useColorScheme';
+import { formatBytes } from '@/lib/format';
+import { UploadJob } from '@/lib/uploads';
+
+const STATUS_LABELS: Record<UploadJob['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  done: 'Uploaded',
+  skipped: 'Skipped, already on server',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+type UploadProgressListProps = {
+  jobs: UploadJob[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClear: () => void;
+};
+
+export default function UploadProgressList({
+  jobs,
+  onCancel,
+  onRetry,
+  onClear,
+}: UploadProgressListProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const cardBackground = colorScheme === 'dark' ? '#171A20' : '#FFFFFF';
+  const metaColor = colorScheme === 'dark' ? '#9AA3B2' : '#7D8390';
+  const trackColor = colorScheme === 'dark' ? '#252A33' : '#E3E7EF';
+  const pending = jobs.filter((job) => job.status === 'queued' || job.status === 'uploading');
+
+  return (
+    <View style={[styles.card, { backgroundColor: cardBackground }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: palette.text }]}>
+          {pending.length ? `Uploading ${pending.length} of ${jobs.length}` : 'Uploads'}
+        </Text>
+        {pending.length < jobs.length ? (
+          <Pressable onPress={onClear}>
+            <Text style={[styles.action, { color: palette.tint }]}>Clear</Text>
+          </Pressable>
+        ) : null}
+      </View>
+      {jobs.map((job) => {
+        const { size } = job.candidate;
+        const percent = size > 0 ? Math.min(1, job.sent / size) : 0;
+        const active = job.status === 'queued' || job.status === 'uploading';
+        const canRetry = job.status === 'failed' || job.status === 'cancelled';
+        const renamed = job.target.split('/').pop() || job.candidate.displayName;
+        return (
+          <View key={job.id} style={styles.row}>
+            <View style={styles.rowText}>
+              <Text style={[styles.rowTitle, { color: palette.text }]} numberOfLines={1}>
+                {renamed}
+              </Text>
+              <Text
+                style={[styles.rowMeta, { color: job.error ? '#C03D3D' : metaColor }]}
+                numberOfLines={1}
+              >
+                {job.error ||
+                  `${STATUS_LABELS[job.status]} · ${formatBytes(job.sent)} of ${formatBytes(size)}`}
+              </Text>
+              {active ? (
+                <View style={[styles.progressTrack, { backgroundColor: trackColor }]}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${Math.round(percent * 100)}%`, backgroundColor: palette.tint },
+                    ]}
+                  />
+                </View>
+              ) : null}
+            </View>
+            {active ? (
+              <Pressable style={styles.rowButton} onPress={() => onCancel(job.id)}>
+                <FontAwesome name="times" size={14} color="#A0A4AC" />
+              </Pressable>
+            ) : canRetry ? (
+              <Pressable style={styles.rowButton} onPress={() => onRetry(job.id)}>
+                <FontAwesome name="refresh" size={14} color={palette.tint} />
+              </Pressable>
+            ) : (
+              <View style={styles.rowButton}>
+                <FontAwesome
+                  name={job.status === 'done' ? 'check' : 'minus'}
+                  size={14}
+                  color={job.status === 'done' ? palette.tint : '#A0A4AC'}
+                />
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 14,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 10,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    marginTop: 2,
+    fontSize: 12,
+  },
+  progressTrack: {
+    marginTop: 6,
+    height: 4,
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  rowButton: {
+    width: 28,
+    alignItems: 'center',
+  },
+});
@@ -1,5 +1,7 @@
+import { DependencyList, useEffect, useMemo, useRef } from 'react';
 import { useAuth } from './auth';
 import { apiJson, buildQuery, buildUrl } from './apiClient';
+import { createApiClient } from './endpoints';
 
 export { apiJson, buildQuery, buildUrl };
 
@@ -13,9 +15,38 @@ export function useApi() {
 
   const authHeaders = token ? { Authorization: `Bearer ${token}` } : undefined;
 
+  const api = useMemo(() => createApiClient(apiJsonWithAuth), [token]);
+
   return {
+    api,
     apiJson: apiJsonWithAuth,
     authHeaders,
     buildUrl,
   };
 }
+
+/**
+ * Hands out one AbortSignal at a time: starting a new request, changing any of
+ * `deps` or unmounting aborts whatever was still in flight, so a slow response
+ * can never overwrite results for a newer query.
+ */
+export function useLatestRequest(deps: DependencyList) {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    },
+    deps
+  );
+
+  const begin = () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  };
+
+  return begin;
+}
@@ -1,5 +1,39 @@
 import { API_BASE_URL } from './config';
 
+export type ApiError = {
+  message: string;
+  code?: string;
+  details?: any;
+};
+
+export type ApiResult<T = any> =
+  | { ok: true; status: number; data: T; meta: Record<string, any> | null }
+  | { ok: false; status: number; error: ApiError };
+
+export type ApiRequestOptions = {
+  method?: string;
+  body?: any;
+  token?: string | null;
+  headers?: Record<string, string>;
+  baseUrl?: string;
+  timeoutMs?: number;
+  retries?: number;
+  signal?: AbortSignal;
+};
+
+export const API_ERROR_TIMEOUT = 'timeout';
+// fetch rejects DNS failures and refused connections with the same TypeError, so
+// both surface as one "server unreachable" code rather than two.
+export const API_ERROR_UNREACHABLE = 'unreachable';
+export const API_ERROR_SERVER = 'server_error';
+export const API_ERROR_ABORTED = 'aborted';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_IDEMPOTENT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+const RETRY_MAX_DELAY_MS = 4000;
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
 function isAbsoluteUrl(value: string) {
   return /^https?:\/\//i.test(value);
 }
@@ -25,7 +59,19 @@ export function buildQuery(params: Record<string, any> = {}) {
   return query ? `?${query}` : '';
 }
 
-export function buildUrl(path: string, params?: Record<string, any>, baseUrl = API_BASE_URL) {
+let activeBaseUrl = API_BASE_URL;
+
+// The connection provider owns the base URL; this mirror lets plain functions
+// and render-time URL building pick up a server change without extra plumbing.
+export function setActiveBaseUrl(baseUrl: string) {
+  activeBaseUrl = baseUrl || API_BASE_URL;
+}
+
+export function getActiveBaseUrl() {
+  return activeBaseUrl;
+}
+
+export function buildUrl(path: string, params?: Record<string, any>, baseUrl = activeBaseUrl) {
   const normalizedBase = baseUrl.replace(/\/$/, '');
   const resolvedPath = isAbsoluteUrl(path)
     ? path
@@ -33,59 +79,80 @@ export function buildUrl(path: string, params?: Record<string, any>, baseUrl = A
   return params ? `${resolvedPath}${buildQuery(params)}` : resolvedPath;
 }
 
-export async function apiJson(
-  path: string,
-  {
-    method = 'GET',
-    body,
-    token,
-    headers,
-    baseUrl,
-  }: {
-    method?: string;
-    body?: any;
-    token?: string | null;
-    headers?: Record<string, string>;
-    baseUrl?: string;
-  } = {}
-) {
-  const resolvedUrl = buildUrl(path, undefined, baseUrl);
-  const requestHeaders: Record<string, string> = {
-    Accept: 'application/json',
-    ...(headers || {}),
-  };
-  if (token) {
-    requestHeaders.Authorization = `Bearer ${token}`;
-  }
-  const isBinaryBody =
-    body instanceof FormData ||
-    body instanceof Blob ||
-    body instanceof ArrayBuffer ||
-    ArrayBuffer.isView(body);
-  let payloadBody = body;
-  if (body && !isBinaryBody && !requestHeaders['Content-Type']) {
-    requestHeaders['Content-Type'] = 'application/json';
-  }
-  if (body && requestHeaders['Content-Type'] === 'application/json') {
-    payloadBody = JSON.stringify(body);
+type UnauthorizedHandler = (token: string) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler;
+}
+
+// Called for any authenticated request the server rejected with 401, so the
+// session can be torn down in one place instead of in every screen.
+export function reportUnauthorized(token?: string | null) {
+  if (token && unauthorizedHandler) {
+    unauthorizedHandler(token);
   }
-  let response: Response;
-  try {
-    response = await fetch(resolvedUrl, {
-      method,
-      headers: requestHeaders,
-      body: payloadBody,
-    });
-  } catch (error: any) {
-    return {
-      ok: false,
-      status: 0,
-      error: {
-        message: 'Network error',
-        details: error?.message || null,
-      },
-    } as const;
+}
+
+// Resolves early when `signal` aborts so a cancelled request does not sit out its backoff.
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+function retryDelay(attempt: number) {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+export function isRetryableError(result: ApiResult) {
+  if (result.ok) {
+    return false;
   }
+  const code = result.error?.code;
+  return (
+    code === API_ERROR_TIMEOUT ||
+    code === API_ERROR_UNREACHABLE ||
+    code === API_ERROR_SERVER ||
+    result.status >= 500
+  );
+}
+
+export function isOfflineError(result: ApiResult) {
+  return (
+    !result.ok &&
+    (result.error?.code === API_ERROR_TIMEOUT || result.error?.code === API_ERROR_UNREACHABLE)
+  );
+}
+
+export function isAbortedError(result: ApiResult) {
+  return !result.ok && result.error?.code === API_ERROR_ABORTED;
+}
+
+function abortedResult(): ApiResult {
+  return {
+    ok: false,
+    status: 0,
+    error: {
+      message: 'Request cancelled',
+      code: API_ERROR_ABORTED,
+    },
+  };
+}
+
+async function readResponse(response: Response): Promise<ApiResult> {
   let payload: any = null;
   try {
     payload = await response.json();
@@ -108,6 +175,16 @@ export async function apiJson(
     } as const;
   }
   if (!response.ok) {
+    if (response.status >= 500) {
+      return {
+        ok: false,
+        status: response.status,
+        error: {
+          message: payload?.error?.message || 'Server error',
+          code: payload?.error?.code || API_ERROR_SERVER,
+        },
+      } as const;
+    }
     return {
       ok: false,
       status: response.status,
@@ -116,3 +193,114 @@ export async function apiJson(
   }
   return { ok: true, status: response.status, data: payload, meta: null } as const;
 }
+
+export async function apiJson(
+  path: string,
+  {
+    method = 'GET',
+    body,
+    token,
+    headers,
+    baseUrl,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries,
+    signal,
+  }: ApiRequestOptions = {}
+): Promise<ApiResult> {
+  const resolvedUrl = buildUrl(path, undefined, baseUrl);
+  const requestHeaders: Record<string, string> = {
+    Accept: 'application/json',
+    ...(headers || {}),
+  };
+  if (token) {
+    requestHeaders.Authorization = `Bearer ${token}`;
+  }
+  const isBinaryBody =
+    body instanceof FormData ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body);
+  let payloadBody = body;
+  if (body && !isBinaryBody && !requestHeaders['Content-Type']) {
+    requestHeaders['Content-Type'] = 'application/json';
+  }
+  if (body && requestHeaders['Content-Type'] === 'application/json') {
+    payloadBody = JSON.stringify(body);
+  }
+  // Only idempotent requests are retried unless the caller opts in explicitly.
+  const maxRetries = Math.max(
+    0,
+    retries ?? (IDEMPOTENT_METHODS.includes(method.toUpperCase()) ? DEFAULT_IDEMPOTENT_RETRIES : 0)
+  );
+
+  let result: ApiResult;
+  let attempt = 0;
+  while (true) {
+    if (signal?.aborted) {
+      return abortedResult();
+    }
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+    let timedOut = false;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : null;
+    try {
+      const response = await fetch(resolvedUrl, {
+        method,
+        headers: requestHeaders,
+        body: payloadBody,
+        signal: controller.signal,
+      });
+      result = await readResponse(response);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        result = abortedResult();
+      } else if (timedOut) {
+        result = {
+          ok: false,
+          status: 0,
+          error: {
+            message: 'Request timed out',
+            code: API_ERROR_TIMEOUT,
+            details: `No response after ${timeoutMs}ms`,
+          },
+        };
+      } else {
+        result = {
+          ok: false,
+          status: 0,
+          error: {
+            message: 'Server unreachable',
+            code: API_ERROR_UNREACHABLE,
+            details: error?.message || null,
+          },
+        };
+      }
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+    if (signal?.aborted) {
+      return abortedResult();
+    }
+    if (attempt >= maxRetries || !isRetryableError(result)) {
+      if (!result.ok && result.status === 401) {
+        reportUnauthorized(token);
+      }
+      return result;
+    }
+    await sleep(retryDelay(attempt), signal);
+    if (signal?.aborted) {
+      return abortedResult();
+    }
+    attempt += 1;
+  }
+}
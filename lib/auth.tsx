@@ -1,87 +1,364 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
-import * as SecureStore from 'expo-secure-store';
-import { apiJson } from './apiClient';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { apiJson, getActiveBaseUrl, setActiveBaseUrl, setUnauthorizedHandler } from './apiClient';
+import { applyBackgroundSyncSchedule } from './backgroundSync';
+import { useConnection } from './connection';
+import {
+  ServerProfile,
+  clearCredentials,
+  createProfileId,
+  deleteProfileSecrets,
+  loadCredentials,
+  loadProfiles,
+  saveCredentials,
+  saveProfiles,
+} from './profiles';
 
-const TOKEN_KEY = 'nnc_token';
-const EXPIRES_KEY = 'nnc_token_expires';
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
 
 type AuthContextValue = {
   token: string;
   devMode: boolean;
   ready: boolean;
   isAuthenticated: boolean;
-  signIn: (user: string, pass: string) => Promise<{ ok: boolean; error?: string }>;
-  signOut: () => Promise<void>;
+  sessionExpired: boolean;
+  expiresAt: number | null;
+  profiles: ServerProfile[];
+  activeProfile: ServerProfile | null;
+  signIn: (
+    user: string,
+    pass: string,
+    options?: { remember?: boolean; baseUrl?: string }
+  ) => Promise<{ ok: boolean; error?: string }>;
+  signOut: (profileId?: string) => Promise<void>;
+  switchProfile: (profileId: string) => Promise<void>;
+  removeProfile: (profileId: string) => Promise<void>;
+  verifySession: () => void;
+  renewSession: () => Promise<boolean>;
 };
 
 const AuthContext = createContext<AuthContextValue | null>(null);
 
-async function loadStoredToken() {
-  const [token, expiresAt] = await Promise.all([
-    SecureStore.getItemAsync(TOKEN_KEY),
-    SecureStore.getItemAsync(EXPIRES_KEY),
-  ]);
-  if (!token) {
-    return { token: '', expiresAt: null };
+function parseExpiresAt(value: unknown) {
+  const numeric = Number(value);
+  if (Number.isFinite(numeric) && numeric > 0) {
+    return numeric;
   }
-  const expires = expiresAt ? Number(expiresAt) : null;
-  if (expires && Number.isFinite(expires) && expires <= Date.now()) {
-    await SecureStore.deleteItemAsync(TOKEN_KEY);
-    await SecureStore.deleteItemAsync(EXPIRES_KEY);
-    return { token: '', expiresAt: null };
-  }
-  return { token, expiresAt: expires };
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+async function requestLogin(user: string, pass: string, baseUrl?: string) {
+  return apiJson('/api/login', {
+    method: 'POST',
+    body: { user, pass },
+    baseUrl,
+  });
 }
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [token, setToken] = useState('');
+  const [profiles, setProfiles] = useState<ServerProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [devMode, setDevMode] = useState(false);
+  const [profilesLoaded, setProfilesLoaded] = useState(false);
   const [ready, setReady] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const profilesRef = useRef<ServerProfile[]>([]);
+  const activeIdRef = useRef<string | null>(null);
+  const tokenRef = useRef('');
+  const lastSessionCheckRef = useRef(0);
+  const recoveringRef = useRef<Promise<boolean> | null>(null);
+  const scheduledProfileRef = useRef<string | null | undefined>(undefined);
+  const { baseUrl, ready: connectionReady, activateBaseUrl } = useConnection();
+
+  const activeProfile = useMemo(
+    () => profiles.find((profile) => profile.id === activeId) || null,
+    [profiles, activeId]
+  );
+  const token = activeProfile?.token || '';
+  const expiresAt = activeProfile?.expiresAt ?? null;
+
+  // Refs mirror the committed state so async callbacks never act on a stale profile.
+  const commitProfiles = (nextProfiles: ServerProfile[], nextActiveId: string | null) => {
+    profilesRef.current = nextProfiles;
+    activeIdRef.current = nextActiveId;
+    tokenRef.current = nextProfiles.find((profile) => profile.id === nextActiveId)?.token || '';
+    setProfiles(nextProfiles);
+    setActiveId(nextActiveId);
+    saveProfiles(nextProfiles, nextActiveId).catch(() => {});
+  };
+
+  const updateProfile = (profileId: string, patch: Partial<ServerProfile>) => {
+    commitProfiles(
+      profilesRef.current.map((profile) =>
+        profile.id === profileId ? { ...profile, ...patch } : profile
+      ),
+      activeIdRef.current
+    );
+  };
+
+  const expireActiveSession = () => {
+    const currentId = activeIdRef.current;
+    if (currentId) {
+      updateProfile(currentId, { token: '', expiresAt: null });
+    }
+    setSessionExpired(true);
+  };
+
+  // Silent re-auth is only possible when the user opted in to saving credentials.
+  const reauthenticate = () => {
+    const profileId = activeIdRef.current;
+    if (!profileId) {
+      return Promise.resolve(false);
+    }
+    if (!recoveringRef.current) {
+      recoveringRef.current = (async () => {
+        const credentials = await loadCredentials(profileId);
+        if (!credentials) {
+          return false;
+        }
+        const profile = profilesRef.current.find((entry) => entry.id === profileId);
+        const result = await requestLogin(credentials.user, credentials.pass, profile?.baseUrl);
+        if (!result.ok || !result.data?.token) {
+          if (result.status === 401 || result.status === 403) {
+            await clearCredentials(profileId);
+          }
+          return false;
+        }
+        if (activeIdRef.current !== profileId) {
+          return false;
+        }
+        updateProfile(profileId, {
+          token: result.data.token,
+          expiresAt: parseExpiresAt(result.data.expiresAt),
+        });
+        setSessionExpired(false);
+        return true;
+      })()
+        .catch(() => false)
+        .finally(() => {
+          recoveringRef.current = null;
+        });
+    }
+    return recoveringRef.current;
+  };
+
+  useEffect(() => {
+    setUnauthorizedHandler((rejectedToken) => {
+      // Ignore late 401s for a token that was already replaced or signed out.
+      if (!rejectedToken || rejectedToken !== tokenRef.current) {
+        return;
+      }
+      reauthenticate().then((renewed) => {
+        if (renewed || rejectedToken !== tokenRef.current) {
+          return;
+        }
+        expireActiveSession();
+      });
+    });
+    return () => {
+      setUnauthorizedHandler(null);
+    };
+  }, []);
 
   useEffect(() => {
+    if (!connectionReady || profilesLoaded) {
+      return;
+    }
     let active = true;
     (async () => {
-      const stored = await loadStoredToken();
-      const health = await apiJson('/api/health');
+      const loaded = await loadProfiles(baseUrl);
       if (!active) {
         return;
       }
-      setDevMode(Boolean(health.ok ? health.data?.devMode : false));
-      setToken(stored.token || '');
+      let expired = false;
+      const now = Date.now();
+      const nextProfiles = loaded.profiles.map((profile) => {
+        if (profile.token && profile.expiresAt && profile.expiresAt <= now) {
+          expired = expired || profile.id === loaded.activeId;
+          return { ...profile, token: '', expiresAt: null };
+        }
+        return profile;
+      });
+      commitProfiles(nextProfiles, loaded.activeId);
+      setSessionExpired(expired);
+      const restored = nextProfiles.find((profile) => profile.id === loaded.activeId);
+      if (restored && restored.baseUrl !== baseUrl) {
+        await activateBaseUrl(restored.baseUrl);
+      }
+      setProfilesLoaded(true);
+    })();
+    return () => {
+      active = false;
+    };
+  }, [connectionReady]);
+
+  useEffect(() => {
+    if (!profilesLoaded) {
+      return;
+    }
+    let active = true;
+    (async () => {
+      const current = profilesRef.current.find((profile) => profile.id === activeIdRef.current);
+      if (current && current.baseUrl !== baseUrl) {
+        // The server changed underneath the active profile; a token is only valid
+        // for the server that issued it, so fall back to one saved for this URL.
+        const match = profilesRef.current.find(
+          (profile) => profile.baseUrl === baseUrl && profile.token
+        );
+        commitProfiles(profilesRef.current, match?.id || null);
+      }
+      const health = await apiJson('/api/health', { baseUrl });
+      if (!active) {
+        return;
+      }
+      const nextDevMode = Boolean(health.ok ? health.data?.devMode : false);
+      setDevMode(nextDevMode);
+      const currentId = activeIdRef.current;
+      if (currentId) {
+        updateProfile(currentId, { devMode: nextDevMode });
+      }
       setReady(true);
     })();
     return () => {
       active = false;
     };
-  }, []);
+  }, [profilesLoaded, baseUrl]);
 
-  const signIn = async (user: string, pass: string) => {
-    const result = await apiJson('/api/login', {
-      method: 'POST',
-      body: { user, pass },
-    });
+  // The first load keeps the schedule it found; only a later switch changes it.
+  useEffect(() => {
+    if (!profilesLoaded) {
+      return;
+    }
+    if (scheduledProfileRef.current !== undefined && scheduledProfileRef.current !== activeId) {
+      applyBackgroundSyncSchedule(activeId).catch(() => {});
+    }
+    scheduledProfileRef.current = activeId;
+  }, [profilesLoaded, activeId]);
+
+  const signIn = async (
+    user: string,
+    pass: string,
+    { remember = false, baseUrl: targetUrl }: { remember?: boolean; baseUrl?: string } = {}
+  ) => {
+    const serverUrl = targetUrl || getActiveBaseUrl();
+    const result = await requestLogin(user, pass, serverUrl);
     if (!result.ok) {
       return { ok: false, error: result.error?.message || 'Login failed' };
     }
-    const nextToken = result.data?.token || '';
-    const expiresAt = result.data?.expiresAt ? String(result.data.expiresAt) : '';
-    setToken(nextToken);
-    if (nextToken) {
-      await SecureStore.setItemAsync(TOKEN_KEY, nextToken);
-      if (expiresAt) {
-        await SecureStore.setItemAsync(EXPIRES_KEY, expiresAt);
-      }
+    const existing = profilesRef.current.find(
+      (profile) => profile.baseUrl === serverUrl && profile.username === user
+    );
+    const profile: ServerProfile = {
+      id: existing?.id || createProfileId(),
+      baseUrl: serverUrl,
+      username: user,
+      token: result.data?.token || '',
+      expiresAt: parseExpiresAt(result.data?.expiresAt),
+      devMode,
+    };
+    const nextProfiles = existing
+      ? profilesRef.current.map((entry) => (entry.id === profile.id ? profile : entry))
+      : [...profilesRef.current, profile];
+    // Point requests at the new server before the new token becomes visible.
+    setActiveBaseUrl(serverUrl);
+    commitProfiles(nextProfiles, profile.id);
+    setSessionExpired(false);
+    if (serverUrl !== baseUrl) {
+      await activateBaseUrl(serverUrl);
+    }
+    if (remember) {
+      await saveCredentials(profile.id, user, pass);
+    } else {
+      await clearCredentials(profile.id);
     }
     return { ok: true };
   };
 
-  const signOut = async () => {
-    if (token) {
-      await apiJson('/api/logout', { method: 'POST', token });
+  const signOut = async (profileId = activeIdRef.current) => {
+    const current = profilesRef.current.find((profile) => profile.id === profileId);
+    setSessionExpired(false);
+    if (!current) {
+      return;
+    }
+    const currentToken = current.token;
+    updateProfile(current.id, { token: '', expiresAt: null });
+    if (currentToken) {
+      await apiJson('/api/logout', {
+        method: 'POST',
+        token: currentToken,
+        baseUrl: current.baseUrl,
+      });
+    }
+    await clearCredentials(current.id);
+  };
+
+  const switchProfile = async (profileId: string) => {
+    const target = profilesRef.current.find((profile) => profile.id === profileId);
+    if (!target || profileId === activeIdRef.current) {
+      return;
+    }
+    setActiveBaseUrl(target.baseUrl);
+    commitProfiles(profilesRef.current, target.id);
+    setSessionExpired(false);
+    setDevMode(target.devMode);
+    await activateBaseUrl(target.baseUrl);
+  };
+
+  const removeProfile = async (profileId: string) => {
+    const target = profilesRef.current.find((profile) => profile.id === profileId);
+    if (!target) {
+      return;
+    }
+    const nextActiveId = activeIdRef.current === profileId ? null : activeIdRef.current;
+    commitProfiles(
+      profilesRef.current.filter((profile) => profile.id !== profileId),
+      nextActiveId
+    );
+    if (target.token) {
+      await apiJson('/api/logout', {
+        method: 'POST',
+        token: target.token,
+        baseUrl: target.baseUrl,
+        retries: 0,
+      });
+    }
+    await deleteProfileSecrets(profileId);
+  };
+
+  const renewSession = async () => {
+    const currentToken = tokenRef.current;
+    const profileId = activeIdRef.current;
+    if (!currentToken || !profileId) {
+      return false;
+    }
+    const result = await apiJson('/api/refresh', { method: 'POST', token: currentToken });
+    if (currentToken !== tokenRef.current) {
+      return Boolean(tokenRef.current);
+    }
+    if (result.ok && result.data?.token) {
+      updateProfile(profileId, {
+        token: result.data.token,
+        expiresAt: parseExpiresAt(result.data.expiresAt),
+      });
+      return true;
+    }
+    if (result.status === 401) {
+      // The unauthorized handler already owns recovery for dead tokens.
+      return false;
+    }
+    return reauthenticate();
+  };
+
+  // Image and stream loads cannot surface an HTTP status, so their failures
+  // trigger a cheap authenticated request that reports a 401 if there is one.
+  const verifySession = () => {
+    const currentToken = tokenRef.current;
+    const now = Date.now();
+    if (!currentToken || now - lastSessionCheckRef.current < SESSION_CHECK_INTERVAL_MS) {
+      return;
     }
-    setToken('');
-    await SecureStore.deleteItemAsync(TOKEN_KEY);
-    await SecureStore.deleteItemAsync(EXPIRES_KEY);
+    lastSessionCheckRef.current = now;
+    apiJson('/api/bootstrap', { token: currentToken, retries: 0 }).catch(() => {});
   };
 
   const value = useMemo<AuthContextValue>(
@@ -90,10 +367,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       devMode,
       ready,
       isAuthenticated: devMode || Boolean(token),
+      sessionExpired,
+      expiresAt,
+      profiles,
+      activeProfile,
       signIn,
       signOut,
+      switchProfile,
+      removeProfile,
+      verifySession,
+      renewSession,
     }),
-    [token, devMode, ready]
+    [token, devMode, ready, sessionExpired, expiresAt, profiles, activeProfile]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,180 @@
+import * as BackgroundTask from 'expo-background-task';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { apiJson, getActiveBaseUrl, setActiveBaseUrl } from './apiClient';
+import { getProfileItem, loadProfiles } from './profiles';
+import { syncConditionsBlocker } from './upload/conditions';
+import { clampChunkBytes } from './upload/plan';
+import {
+  isMediaSyncRunning,
+  loadMediaSyncSettings,
+  readSyncJob,
+  runMediaSync,
+  SyncProgress,
+  syncJobFileCount,
+} from './upload/sync';
+
+export const BACKGROUND_SYNC_TASK = 'nnc-background-media-sync';
+export const BACKGROUND_SYNC_ENABLED_KEY = 'nnc_camera_sync_background';
+export const BACKGROUND_SYNC_CHARGING_KEY = 'nnc_camera_sync_background_charging';
+export const BACKGROUND_SYNC_INTERVAL_KEY = 'nnc_camera_sync_background_interval';
+export const BACKGROUND_SYNC_INTERVALS = [60, 360, 720, 1440];
+export const DEFAULT_BACKGROUND_SYNC_INTERVAL = 360;
+
+// Android stops background work after roughly ten minutes; leave room to report.
+const RUN_BUDGET_MS = 8 * 60 * 1000;
+
+export type BackgroundSyncSettings = {
+  enabled: boolean;
+  chargingOnly: boolean;
+  intervalMinutes: number;
+};
+
+export async function loadBackgroundSyncSettings(
+  profileId: string | null
+): Promise<BackgroundSyncSettings> {
+  const [enabled, chargingOnly, interval] = await Promise.all([
+    getProfileItem(BACKGROUND_SYNC_ENABLED_KEY, profileId),
+    getProfileItem(BACKGROUND_SYNC_CHARGING_KEY, profileId),
+    getProfileItem(BACKGROUND_SYNC_INTERVAL_KEY, profileId),
+  ]);
+  const intervalMinutes = Number(interval);
+  return {
+    enabled: enabled === '1',
+    chargingOnly: chargingOnly === '1',
+    intervalMinutes: BACKGROUND_SYNC_INTERVALS.includes(intervalMinutes)
+      ? intervalMinutes
+      : DEFAULT_BACKGROUND_SYNC_INTERVAL,
+  };
+}
+
+export async function registerBackgroundSync(intervalMinutes: number) {
+  const status = await BackgroundTask.getStatusAsync();
+  if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+    throw new Error('Background tasks are restricted on this device.');
+  }
+  // Re-registering replaces the previous schedule with the new interval.
+  if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+    await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+  }
+  await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+    minimumInterval: intervalMinutes,
+  });
+}
+
+export async function unregisterBackgroundSync() {
+  if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+    await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+  }
+}
+
+// The task is registered once for the app while the setting is per profile, so the
+// schedule has to follow whichever profile is active.
+export async function applyBackgroundSyncSchedule(profileId: string | null) {
+  const settings = await loadBackgroundSyncSettings(profileId);
+  if (settings.enabled) {
+    await registerBackgroundSync(settings.intervalMinutes);
+  } else {
+    await unregisterBackgroundSync();
+  }
+}
+
+export async function requestSyncNotificationPermission() {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  const next = await Notifications.requestPermissionsAsync();
+  return next.granted;
+}
+
+// Background runs never use metered data, whatever the Media Sync conditions say.
+async function conditionsAllowSync(chargingOnly: boolean) {
+  const blocker = await syncConditionsBlocker({
+    wifiOnly: false,
+    unmeteredOnly: true,
+    chargingOnly,
+    minBatteryPercent: 0,
+  });
+  return !blocker;
+}
+
+async function notifySummary(progress: SyncProgress) {
+  if (
+    progress.stage === 'done' &&
+    !progress.uploaded &&
+    !progress.failed &&
+    !progress.pruneBlocked
+  ) {
+    return;
+  }
+  const body =
+    progress.stage === 'error'
+      ? progress.error
+      : `Uploaded ${progress.uploaded}, skipped ${progress.skipped}, failed ${progress.failed}.` +
+        (progress.stage === 'cancelled' ? ' The rest continues on the next run.' : '') +
+        (progress.pruneBlocked ? ` ${progress.pruneBlocked}` : '');
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: progress.stage === 'error' ? 'Media sync failed' : 'Media sync',
+      body,
+    },
+    trigger: null,
+  });
+}
+
+async function runBackgroundSync() {
+  if (isMediaSyncRunning()) {
+    return BackgroundTask.BackgroundTaskResult.Success;
+  }
+  const { profiles, activeId } = await loadProfiles(getActiveBaseUrl());
+  const profile = profiles.find((item) => item.id === activeId);
+  if (!profile || (!profile.token && !profile.devMode)) {
+    return BackgroundTask.BackgroundTaskResult.Success;
+  }
+
+  const background = await loadBackgroundSyncSettings(profile.id);
+  if (!background.enabled || !(await conditionsAllowSync(background.chargingOnly))) {
+    return BackgroundTask.BackgroundTaskResult.Success;
+  }
+
+  setActiveBaseUrl(profile.baseUrl);
+  const bootstrap = await apiJson('/api/bootstrap', { token: profile.token || undefined });
+  if (!bootstrap.ok) {
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+  const upload = bootstrap.data?.info?.capabilities?.upload;
+  if (upload?.enabled === false) {
+    return BackgroundTask.BackgroundTaskResult.Success;
+  }
+
+  // An interrupted run (foreground or a previous background slot) is finished first.
+  const job = readSyncJob();
+  const resumeFrom = job && job.profileId === profile.id && syncJobFileCount(job) ? job : null;
+  const settings = resumeFrom?.settings || (await loadMediaSyncSettings(profile.id));
+  // Waiting for them would only burn the run's time budget; try again next slot.
+  if (settings.conditions && (await syncConditionsBlocker(settings.conditions))) {
+    return BackgroundTask.BackgroundTaskResult.Success;
+  }
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const progress = await runMediaSync(settings, {
+    getToken: () => profile.token,
+    chunkBytes: clampChunkBytes(upload?.chunkBytes),
+    shouldStop: () => Date.now() >= deadline,
+    interactive: false,
+    profileId: profile.id,
+    resumeFrom,
+  });
+  await notifySummary(progress).catch(() => {});
+  return progress.stage === 'error'
+    ? BackgroundTask.BackgroundTaskResult.Failed
+    : BackgroundTask.BackgroundTaskResult.Success;
+}
+
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  try {
+    return await runBackgroundSync();
+  } catch {
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
@@ -2,3 +2,11 @@ export const API_BASE_URL = (process.env.EXPO_PUBLIC_API_URL || 'http://localhos
   /\/$/,
   ''
 );
+
+export function normalizeBaseUrl(value: string) {
+  const trimmed = String(value || '').trim().replace(/\/+$/, '');
+  if (!trimmed) {
+    return '';
+  }
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
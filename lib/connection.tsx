@@ -0,0 +1,129 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import * as SecureStore from 'expo-secure-store';
+import { apiJson, setActiveBaseUrl } from './apiClient';
+import { API_BASE_URL, normalizeBaseUrl } from './config';
+
+const SERVER_URL_KEY = 'nnc_server_url';
+const PROBE_TIMEOUT_MS = 8000;
+
+export type ServerProbeResult =
+  | { ok: true; baseUrl: string; devMode: boolean; authRequired: boolean }
+  | { ok: false; baseUrl: string; error: string };
+
+type ConnectionContextValue = {
+  baseUrl: string;
+  ready: boolean;
+  probeServer: (url: string) => Promise<ServerProbeResult>;
+  setBaseUrl: (url: string) => Promise<ServerProbeResult>;
+  activateBaseUrl: (url: string) => Promise<void>;
+};
+
+const ConnectionContext = createContext<ConnectionContextValue | null>(null);
+
+export async function probeServer(url: string): Promise<ServerProbeResult> {
+  const baseUrl = normalizeBaseUrl(url);
+  if (!baseUrl) {
+    return { ok: false, baseUrl, error: 'Enter a server URL.' };
+  }
+  const health = await apiJson('/api/health', {
+    baseUrl,
+    retries: 0,
+    timeoutMs: PROBE_TIMEOUT_MS,
+  });
+  if (!health.ok) {
+    return {
+      ok: false,
+      baseUrl,
+      error:
+        health.status === 0
+          ? `Could not reach ${baseUrl}.`
+          : health.error?.message || 'Server health check failed.',
+    };
+  }
+  // Without a token bootstrap answers 401 on servers that require auth, which still
+  // proves this is a compatible server; anything else means the URL is wrong.
+  const bootstrap = await apiJson('/api/bootstrap', {
+    baseUrl,
+    retries: 0,
+    timeoutMs: PROBE_TIMEOUT_MS,
+  });
+  if (!bootstrap.ok && bootstrap.status !== 401) {
+    return {
+      ok: false,
+      baseUrl,
+      error: bootstrap.error?.message || 'This does not look like a NotNextCloud server.',
+    };
+  }
+  return {
+    ok: true,
+    baseUrl,
+    devMode: Boolean(health.data?.devMode),
+    authRequired: !bootstrap.ok,
+  };
+}
+
+export function ConnectionProvider({ children }: { children: React.ReactNode }) {
+  const [baseUrl, setBaseUrlState] = useState(API_BASE_URL);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      const stored = normalizeBaseUrl((await SecureStore.getItemAsync(SERVER_URL_KEY)) || '');
+      if (!active) {
+        return;
+      }
+      if (stored) {
+        setActiveBaseUrl(stored);
+        setBaseUrlState(stored);
+      }
+      setReady(true);
+    })();
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const setBaseUrl = async (url: string) => {
+    const probe = await probeServer(url);
+    if (!probe.ok) {
+      return probe;
+    }
+    setActiveBaseUrl(probe.baseUrl);
+    setBaseUrlState(probe.baseUrl);
+    await SecureStore.setItemAsync(SERVER_URL_KEY, probe.baseUrl);
+    return probe;
+  };
+
+  // Used when switching to a saved profile whose server was already validated.
+  const activateBaseUrl = async (url: string) => {
+    const nextUrl = normalizeBaseUrl(url);
+    if (!nextUrl) {
+      return;
+    }
+    setActiveBaseUrl(nextUrl);
+    setBaseUrlState(nextUrl);
+    await SecureStore.setItemAsync(SERVER_URL_KEY, nextUrl);
+  };
+
+  const value = useMemo<ConnectionContextValue>(
+    () => ({
+      baseUrl,
+      ready,
+      probeServer,
+      setBaseUrl,
+      activateBaseUrl,
+    }),
+    [baseUrl, ready]
+  );
+
+  return <ConnectionContext.Provider value={value}>{children}</ConnectionContext.Provider>;
+}
+
+export function useConnection() {
+  const ctx = useContext(ConnectionContext);
+  if (!ctx) {
+    throw new Error('useConnection must be used within ConnectionProvider');
+  }
+  return ctx;
+}
@@ -0,0 +1,530 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import * as Sharing from 'expo-sharing';
+import * as IntentLauncher from 'expo-intent-launcher';
+import { Directory, File, Paths } from 'expo-file-system';
+import { getContentUriAsync } from 'expo-file-system/legacy';
+import { buildUrl, reportUnauthorized } from './apiClient';
+import { useAuth } from './auth';
+import { Entry, EntryActionItem } from './endpoints';
+
+const DOWNLOADS_DIR = 'Downloads';
+const PARTIAL_DIR = 'partial-downloads';
+const SHARE_DIR = 'share';
+const JOBS_FILE = 'downloads.json';
+const DOWNLOAD_FOLDER_KEY = 'nnc_download_folder_uri';
+const RANGE_CHUNK_BYTES = 1024 * 1024;
+const COPY_CHUNK_BYTES = 1024 * 1024;
+const JOB_SAVE_INTERVAL_MS = 5000;
+const ANDROID_GRANT_READ_URI_PERMISSION = 1;
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'failed' | 'done';
+
+export type DownloadJob = {
+  id: string;
+  profileId: string | null;
+  rootId: string;
+  path: string;
+  name: string;
+  mime: string | null;
+  size: number;
+  received: number;
+  status: DownloadStatus;
+  error: string | null;
+  fileUri: string | null;
+  createdAt: number;
+  finishedAt: number | null;
+};
+
+type DownloadsContextValue = {
+  jobs: DownloadJob[];
+  folderUri: string | null;
+  enqueue: (entries: Entry[]) => number;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  open: (id: string) => Promise<void>;
+  findCompleted: (entry: Pick<Entry, 'rootId' | 'path'>) => DownloadJob | null;
+  chooseFolder: () => Promise<boolean>;
+  resetFolder: () => Promise<void>;
+};
+
+const DownloadsContext = createContext<DownloadsContextValue | null>(null);
+
+export function fileUrl(entry: Pick<Entry, 'rootId' | 'path'>) {
+  return buildUrl('/api/file', { root: entry.rootId, path: entry.path });
+}
+
+function ensureDirectory(parent: Directory | string, name: string) {
+  const directory = new Directory(parent, name);
+  directory.create({ intermediates: true, idempotent: true });
+  return directory;
+}
+
+function entryFileName(entry: Pick<Entry, 'name' | 'path'>) {
+  return entry.name || entry.path.split('/').pop() || 'download';
+}
+
+function parseRangeTotal(header: string | null) {
+  const match = header ? /\/(\d+)\s*$/.exec(header) : null;
+  return match ? Number(match[1]) : null;
+}
+
+// A body that ignored Range is only read when it is no bigger than a ranged chunk.
+function fitsOneChunk(response: Response, knownSize: number) {
+  const length = Number(response.headers.get('Content-Length') || knownSize);
+  return length > 0 && length <= RANGE_CHUNK_BYTES;
+}
+
+function uniqueFile(directory: Directory, name: string) {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    const file = new File(directory, attempt ? `${base} (${attempt})${ext}` : name);
+    if (!file.exists) {
+      return file;
+    }
+  }
+  return new File(directory, `${Date.now()}-${name}`);
+}
+
+function copyInChunks(source: File, target: File) {
+  const reader = source.open();
+  const writer = target.open();
+  try {
+    let offset = 0;
+    const total = source.size;
+    while (offset < total) {
+      reader.offset = offset;
+      const bytes = reader.readBytes(Math.min(COPY_CHUNK_BYTES, total - offset));
+      if (!bytes.length) {
+        break;
+      }
+      writer.offset = offset;
+      writer.writeBytes(bytes);
+      offset += bytes.length;
+    }
+  } finally {
+    reader.close();
+    writer.close();
+  }
+}
+
+function readJobs(): DownloadJob[] {
+  try {
+    const file = new File(Paths.document, JOBS_FILE);
+    if (!file.exists) {
+      return [];
+    }
+    const parsed = JSON.parse(file.textSync());
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    // Nothing survives a restart mid-transfer; the partial file is kept for resume.
+    return parsed.map((job: DownloadJob) =>
+      job.status === 'downloading' ? { ...job, status: 'paused' as const } : job
+    );
+  } catch {
+    return [];
+  }
+}
+
+function writeJobs(jobs: DownloadJob[]) {
+  try {
+    new File(Paths.document, JOBS_FILE).write(JSON.stringify(jobs));
+  } catch {
+    // The list is a convenience; a failed write only loses history.
+  }
+}
+
+/** Downloads to the cache and opens the share sheet, which takes one file at a time. */
+export async function shareEntries(entries: Entry[], headers?: Record<string, string>) {
+  if (!(await Sharing.isAvailableAsync())) {
+    return entries.map((entry) => ({
+      path: entry.path,
+      ok: false,
+      error: { message: 'Sharing is not available on this device.' },
+    }));
+  }
+  const directory = ensureDirectory(Paths.cache, SHARE_DIR);
+  const results: EntryActionItem[] = [];
+  for (const entry of entries) {
+    try {
+      const file = await File.downloadFileAsync(
+        fileUrl(entry),
+        new File(directory, entryFileName(entry)),
+        { headers, idempotent: true }
+      );
+      await Sharing.shareAsync(file.uri);
+      results.push({ path: entry.path, ok: true, target: file.uri });
+    } catch (error: any) {
+      results.push({
+        path: entry.path,
+        ok: false,
+        error: { message: error?.message || 'Share failed' },
+      });
+    }
+  }
+  return results;
+}
+
+export function DownloadsProvider({ children }: { children: React.ReactNode }) {
+  const { token, isAuthenticated, activeProfile } = useAuth();
+  const profileId = activeProfile?.id || null;
+  const [jobs, setJobs] = useState<DownloadJob[]>([]);
+  const [folderUri, setFolderUri] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const jobsRef = useRef<DownloadJob[]>([]);
+  const tokenRef = useRef(token);
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  const lastSavedAtRef = useRef(0);
+  const folderUriRef = useRef<string | null>(null);
+  const activeRef = useRef<{
+    id: string;
+    controller: AbortController;
+    stopAs?: DownloadStatus;
+  } | null>(null);
+  const profileIdRef = useRef(profileId);
+
+  tokenRef.current = token;
+  isAuthenticatedRef.current = isAuthenticated;
+  profileIdRef.current = profileId;
+
+  // Progress updates arrive per chunk, so they only reach disk every few seconds;
+  // a resumed job re-reads its progress from the partial file anyway.
+  const commitJobs = (nextJobs: DownloadJob[], persist = true) => {
+    jobsRef.current = nextJobs;
+    setJobs(nextJobs);
+    if (persist || Date.now() - lastSavedAtRef.current >= JOB_SAVE_INTERVAL_MS) {
+      lastSavedAtRef.current = Date.now();
+      writeJobs(nextJobs);
+    }
+  };
+
+  const updateJob = (id: string, patch: Partial<DownloadJob>, persist = true) => {
+    commitJobs(
+      jobsRef.current.map((job) => (job.id === id ? { ...job, ...patch } : job)),
+      persist
+    );
+  };
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      const storedFolder = await SecureStore.getItemAsync(DOWNLOAD_FOLDER_KEY);
+      if (!active) {
+        return;
+      }
+      folderUriRef.current = storedFolder;
+      setFolderUri(storedFolder);
+      commitJobs(readJobs());
+      setLoaded(true);
+    })();
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Finished files move out of the partial area and, when the user picked a
+  // folder, into that folder; the app copy is the fallback if that write fails.
+  const finishJob = (job: DownloadJob, partial: File) => {
+    const localFile = uniqueFile(ensureDirectory(Paths.document, DOWNLOADS_DIR), job.name);
+    partial.move(localFile);
+    const targetFolder = folderUriRef.current;
+    if (!targetFolder) {
+      return { fileUri: localFile.uri, error: null };
+    }
+    try {
+      const target = new Directory(targetFolder).createFile(
+        job.name,
+        job.mime || 'application/octet-stream'
+      );
+      copyInChunks(localFile, target);
+      localFile.delete();
+      return { fileUri: target.uri, error: null };
+    } catch {
+      return {
+        fileUri: localFile.uri,
+        error: 'Could not write to the chosen folder; saved in app Downloads instead.',
+      };
+    }
+  };
+
+  const runJob = async (job: DownloadJob) => {
+    const controller = new AbortController();
+    activeRef.current = { id: job.id, controller };
+    const partial = new File(ensureDirectory(Paths.document, PARTIAL_DIR), job.id);
+    if (!partial.exists) {
+      partial.create();
+    }
+    let received = partial.size;
+    let total = job.size;
+    updateJob(job.id, { status: 'downloading', error: null, received });
+    const url = fileUrl(job);
+    let handle: ReturnType<File['open']> | null = null;
+    try {
+      handle = partial.open();
+      while (total <= 0 || received < total) {
+        const requestToken = tokenRef.current;
+        const headers: Record<string, string> = {
+          Range: `bytes=${received}-${received + RANGE_CHUNK_BYTES - 1}`,
+        };
+        if (requestToken) {
+          headers.Authorization = `Bearer ${requestToken}`;
+        }
+        const response = await fetch(url, { headers, signal: controller.signal });
+        if (response.status === 416 && received > 0) {
+          break;
+        }
+        if (response.status === 401) {
+          reportUnauthorized(requestToken);
+          throw new Error('Session expired. Sign in and retry.');
+        }
+        if (!response.ok) {
+          throw new Error(`Download failed (HTTP ${response.status}).`);
+        }
+        if (response.status === 200 && !fitsOneChunk(response, total)) {
+          // Without Range support the whole file would have to sit in memory at once.
+          throw new Error(
+            'This server does not support resumable downloads, and the file is too large to fetch in one piece.'
+          );
+        }
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (response.status === 200) {
+          // The server ignored Range and sent the whole (small) file, so start over with it.
+          handle.close();
+          handle = null;
+          partial.write(bytes);
+          received = bytes.length;
+          total = bytes.length;
+          break;
+        }
+        const rangeTotal = parseRangeTotal(response.headers.get('Content-Range'));
+        if (rangeTotal !== null) {
+          total = rangeTotal;
+        }
+        if (!bytes.length) {
+          break;
+        }
+        handle.offset = received;
+        handle.writeBytes(bytes);
+        received += bytes.length;
+        updateJob(job.id, { received, size: total }, false);
+      }
+      handle?.close();
+      handle = null;
+      const { fileUri, error } = finishJob(job, partial);
+      updateJob(job.id, {
+        status: 'done',
+        received,
+        size: total || received,
+        fileUri,
+        error,
+        finishedAt: Date.now(),
+      });
+    } catch (error: any) {
+      try {
+        handle?.close();
+      } catch {
+        // no-op
+      }
+      const stopAs = activeRef.current?.stopAs;
+      if (stopAs) {
+        updateJob(job.id, { status: stopAs, received });
+      } else {
+        updateJob(job.id, {
+          status: 'failed',
+          received,
+          error: error?.message || 'Download failed.',
+        });
+      }
+    } finally {
+      activeRef.current = null;
+      pumpQueue();
+    }
+  };
+
+  // One transfer at a time keeps memory flat and leaves bandwidth for playback.
+  const pumpQueue = () => {
+    if (activeRef.current || !isAuthenticatedRef.current) {
+      return;
+    }
+    const next = jobsRef.current.find(
+      (job) => job.status === 'queued' && job.profileId === profileIdRef.current
+    );
+    if (next) {
+      runJob(next);
+    }
+  };
+
+  useEffect(() => {
+    const active = activeRef.current;
+    const activeJob = active && jobsRef.current.find((job) => job.id === active.id);
+    // Downloads use the active session, so another profile's job waits for its owner.
+    if (active && activeJob && activeJob.profileId !== profileId) {
+      active.stopAs = 'queued';
+      active.controller.abort();
+      return;
+    }
+    if (loaded) {
+      pumpQueue();
+    }
+  }, [loaded, profileId, token, isAuthenticated]);
+
+  const enqueue = (entries: Entry[]) => {
+    const pending = new Set(
+      jobsRef.current
+        .filter((job) => job.status !== 'done' && job.status !== 'failed')
+        .map((job) => `${job.profileId}:${job.rootId}:${job.path}`)
+    );
+    const now = Date.now();
+    const added: DownloadJob[] = entries
+      .filter((entry) => !entry.isDir && !pending.has(`${profileId}:${entry.rootId}:${entry.path}`))
+      .map((entry, index) => ({
+        id: `d${now.toString(36)}${index}${Math.random().toString(36).slice(2, 6)}`,
+        profileId,
+        rootId: entry.rootId,
+        path: entry.path,
+        name: entryFileName(entry),
+        mime: entry.mime || null,
+        size: entry.size || 0,
+        received: 0,
+        status: 'queued',
+        error: null,
+        fileUri: null,
+        createdAt: now,
+        finishedAt: null,
+      }));
+    if (added.length) {
+      commitJobs([...added, ...jobsRef.current]);
+      pumpQueue();
+    }
+    return added.length;
+  };
+
+  const pause = (id: string) => {
+    const active = activeRef.current;
+    if (active?.id === id) {
+      active.stopAs = 'paused';
+      active.controller.abort();
+      return;
+    }
+    const job = jobsRef.current.find((item) => item.id === id);
+    if (job?.status === 'queued') {
+      updateJob(id, { status: 'paused' });
+    }
+  };
+
+  const resume = (id: string) => {
+    const job = jobsRef.current.find((item) => item.id === id);
+    if (job && (job.status === 'paused' || job.status === 'failed')) {
+      updateJob(id, { status: 'queued', error: null });
+      pumpQueue();
+    }
+  };
+
+  const deletePartial = (id: string) => {
+    try {
+      const partial = new File(Paths.document, PARTIAL_DIR, id);
+      if (partial.exists) {
+        partial.delete();
+      }
+    } catch {
+      // no-op
+    }
+  };
+
+  // Removing an entry only drops it from the list; completed files stay on disk.
+  const remove = (id: string) => {
+    const active = activeRef.current;
+    if (active?.id === id) {
+      active.stopAs = 'paused';
+      active.controller.abort();
+    }
+    deletePartial(id);
+    commitJobs(jobsRef.current.filter((job) => job.id !== id));
+  };
+
+  const clearFinished = () => {
+    commitJobs(jobsRef.current.filter((job) => job.status !== 'done'));
+  };
+
+  const open = async (id: string) => {
+    const job = jobsRef.current.find((item) => item.id === id);
+    if (!job?.fileUri) {
+      throw new Error('This download has not finished yet.');
+    }
+    if (Platform.OS !== 'android') {
+      await Sharing.shareAsync(job.fileUri);
+      return;
+    }
+    const contentUri = job.fileUri.startsWith('content://')
+      ? job.fileUri
+      : await getContentUriAsync(job.fileUri);
+    await IntentLauncher.startActivityAsync('android.intent.action.VIEW', {
+      data: contentUri,
+      flags: ANDROID_GRANT_READ_URI_PERMISSION,
+      type: job.mime || '*/*',
+    });
+  };
+
+  const findCompleted = (entry: Pick<Entry, 'rootId' | 'path'>) =>
+    jobs.find(
+      (job) =>
+        job.status === 'done' &&
+        job.profileId === profileId &&
+        job.rootId === entry.rootId &&
+        job.path === entry.path
+    ) || null;
+
+  const chooseFolder = async () => {
+    try {
+      const selected = await Directory.pickDirectoryAsync(folderUriRef.current || undefined);
+      if (!selected?.uri) {
+        return false;
+      }
+      folderUriRef.current = selected.uri;
+      setFolderUri(selected.uri);
+      await SecureStore.setItemAsync(DOWNLOAD_FOLDER_KEY, selected.uri);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const resetFolder = async () => {
+    folderUriRef.current = null;
+    setFolderUri(null);
+    await SecureStore.deleteItemAsync(DOWNLOAD_FOLDER_KEY);
+  };
+
+  const value = useMemo<DownloadsContextValue>(
+    () => ({
+      jobs,
+      folderUri,
+      enqueue,
+      pause,
+      resume,
+      remove,
+      clearFinished,
+      open,
+      findCompleted,
+      chooseFolder,
+      resetFolder,
+    }),
+    [jobs, folderUri, profileId]
+  );
+
+  return <DownloadsContext.Provider value={value}>{children}</DownloadsContext.Provider>;
+}
+
+export function useDownloads() {
+  const ctx = useContext(DownloadsContext);
+  if (!ctx) {
+    throw new Error('useDownloads must be used within DownloadsProvider');
+  }
+  return ctx;
+}
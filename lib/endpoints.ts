@@ -0,0 +1,309 @@
+import { ApiRequestOptions, ApiResult, buildUrl } from './apiClient';
+
+export type Entry = {
+  rootId: string;
+  path: string;
+  name: string;
+  size: number;
+  mtime: number;
+  mime?: string | null;
+  isDir: boolean;
+  title?: string | null;
+  artist?: string | null;
+  album?: string | null;
+  duration?: number | null;
+  albumKey?: string | null;
+};
+
+export type TrackEntry = {
+  rootId: string;
+  path: string;
+  name: string;
+  title?: string | null;
+  artist?: string | null;
+  album?: string | null;
+  albumKey?: string | null;
+  duration?: number | null;
+};
+
+export type AlbumItem = {
+  albumKey: string | null;
+  album: string;
+  artist: string;
+  tracks: number;
+  latest: number;
+  coverKey: string | null;
+};
+
+export type ArtistItem = {
+  artist: string;
+  tracks: number;
+  albums: number;
+  latest: number;
+};
+
+export type ItemsPage<T> = {
+  items: T[];
+  total: number | null;
+};
+
+export type SearchType = 'all' | 'photos' | 'music';
+export type MediaType = 'photos' | 'music';
+
+export type UploadStatusPayload = {
+  path?: string;
+  file?: string;
+  target?: string;
+  size: number;
+  overwrite: 0 | 1;
+  camera?: 1;
+  cameraMonth?: string;
+  capturedAt?: string;
+};
+
+export type UploadStatusItem = {
+  index: number;
+  ok?: boolean;
+  status?: string;
+  offset?: number;
+  error?: { message?: string; code?: string } | null;
+};
+
+export type EntryActionItem = {
+  path: string;
+  ok: boolean;
+  target?: string | null;
+  error?: { message?: string; code?: string } | null;
+};
+
+export type ApiRequest = (
+  path: string,
+  options?: Omit<ApiRequestOptions, 'token'>
+) => Promise<ApiResult>;
+
+export type CallOptions = {
+  signal?: AbortSignal;
+};
+
+type Failure = Extract<ApiResult, { ok: false }>;
+
+function invalidResponse(status: number, endpoint: string): Failure {
+  return {
+    ok: false,
+    status,
+    error: {
+      message: `Unexpected response from ${endpoint}`,
+      code: 'invalid_response',
+    },
+  };
+}
+
+function readTotal(data: any, meta: Record<string, any> | null) {
+  const raw = data?.total ?? meta?.total;
+  const total = Number(raw);
+  return raw !== undefined && raw !== null && Number.isFinite(total) ? total : null;
+}
+
+// Per-item checks for the fields callers rely on; anything else is dropped
+// rather than handed on as a half-formed object.
+const isObject = (item: any) => !!item && typeof item === 'object';
+const isEntry = (item: any): item is Entry =>
+  isObject(item) &&
+  typeof item.path === 'string' &&
+  typeof item.rootId === 'string' &&
+  typeof item.name === 'string';
+const isTrackEntry = (item: any): item is TrackEntry =>
+  isObject(item) && typeof item.path === 'string' && typeof item.rootId === 'string';
+const isAlbumItem = (item: any): item is AlbumItem =>
+  isObject(item) && typeof item.album === 'string';
+const isArtistItem = (item: any): item is ArtistItem =>
+  isObject(item) && typeof item.artist === 'string';
+
+async function requestItems<T>(
+  request: ApiRequest,
+  endpoint: string,
+  params: Record<string, any>,
+  isValid: (item: any) => item is T,
+  options: CallOptions = {}
+): Promise<ApiResult<ItemsPage<T>>> {
+  const result = await request(buildUrl(endpoint, params), { signal: options.signal });
+  if (!result.ok) {
+    return result;
+  }
+  if (!result.data || typeof result.data !== 'object' || !Array.isArray(result.data.items)) {
+    return invalidResponse(result.status, endpoint);
+  }
+  return {
+    ok: true,
+    status: result.status,
+    data: {
+      items: result.data.items.filter(isValid),
+      total: readTotal(result.data, result.meta),
+    },
+    meta: result.meta,
+  };
+}
+
+// Batch endpoints report each path separately; older servers answer a plain
+// `{ ok: true }`, which means every path succeeded.
+function readActionItems(
+  result: ApiResult,
+  endpoint: string,
+  paths: string[]
+): ApiResult<EntryActionItem[]> {
+  if (!result.ok) {
+    return result;
+  }
+  const rawItems = result.data?.items;
+  if (rawItems === undefined) {
+    return { ...result, data: paths.map((path) => ({ path, ok: true })) };
+  }
+  if (!Array.isArray(rawItems)) {
+    return invalidResponse(result.status, endpoint);
+  }
+  const items = paths.map((path) => {
+    const raw = rawItems.find((item: any) => item?.path === path);
+    if (!raw) {
+      // A path the server did not report on cannot be assumed to have succeeded.
+      return {
+        path,
+        ok: false,
+        target: null,
+        error: { message: `No result for ${path} from ${endpoint}`, code: 'missing_result' },
+      };
+    }
+    return {
+      path,
+      ok: Boolean(raw.ok ?? !raw.error),
+      target: typeof raw.target === 'string' ? raw.target : null,
+      error: raw.error || null,
+    };
+  });
+  return { ...result, data: items };
+}
+
+export function createApiClient(request: ApiRequest) {
+  return {
+    listDirectory: (
+      params: {
+        root: string;
+        path: string;
+        limit: number;
+        offset?: number;
+        includeTotal?: boolean;
+      },
+      options?: CallOptions
+    ) =>
+      requestItems<Entry>(
+        request,
+        '/api/list',
+        { ...params, includeTotal: params.includeTotal ?? false },
+        isEntry,
+        options
+      ),
+
+    searchEntries: (
+      params: {
+        root: string;
+        q: string;
+        type: SearchType;
+        limit: number;
+        offset?: number;
+        includeTotal?: boolean;
+      },
+      options?: CallOptions
+    ) =>
+      requestItems<Entry>(
+        request,
+        '/api/search',
+        { ...params, includeTotal: params.includeTotal ?? false },
+        isEntry,
+        options
+      ),
+
+    listMedia: (
+      params: { root: string; type: MediaType; limit: number; offset?: number },
+      options?: CallOptions
+    ) => requestItems<Entry>(request, '/api/media', params, isEntry, options),
+
+    listAlbums: (
+      params: { root: string; limit: number; offset?: number; q?: string },
+      options?: CallOptions
+    ) => requestItems<AlbumItem>(request, '/api/music/albums', params, isAlbumItem, options),
+
+    listArtists: (
+      params: { root: string; limit: number; offset?: number; q?: string },
+      options?: CallOptions
+    ) => requestItems<ArtistItem>(request, '/api/music/artists', params, isArtistItem, options),
+
+    getAlbum: (params: { root: string; key: string }, options?: CallOptions) =>
+      requestItems<TrackEntry>(request, '/api/music/album', params, isTrackEntry, options),
+
+    getArtist: (params: { root: string; artist: string }, options?: CallOptions) =>
+      requestItems<TrackEntry>(request, '/api/music/artist', params, isTrackEntry, options),
+
+    uploadStatusBatch: async (params: {
+      root: string;
+      items: UploadStatusPayload[];
+    }): Promise<ApiResult<UploadStatusItem[]>> => {
+      // Status checks are read-only on the server, so they are safe to retry despite the POST.
+      const result = await request('/api/upload/status/batch', {
+        method: 'POST',
+        body: params,
+        retries: 2,
+      });
+      if (!result.ok) {
+        return result;
+      }
+      if (!Array.isArray(result.data?.items)) {
+        return invalidResponse(result.status, '/api/upload/status/batch');
+      }
+      return { ...result, data: result.data.items as UploadStatusItem[] };
+    },
+
+    deleteEntries: async (params: { root: string; paths: string[] }) =>
+      readActionItems(
+        await request('/api/delete', { method: 'POST', body: params }),
+        '/api/delete',
+        params.paths
+      ),
+
+    createFolder: (params: { root: string; path: string }) =>
+      request('/api/mkdir', {
+        method: 'POST',
+        body: params,
+      }),
+
+    renameEntry: (params: { root: string; path: string; name: string }) =>
+      request('/api/rename', {
+        method: 'POST',
+        body: params,
+      }),
+
+    moveEntries: async (params: {
+      root: string;
+      paths: string[];
+      targetRoot: string;
+      targetPath: string;
+    }) =>
+      readActionItems(
+        await request('/api/move', { method: 'POST', body: params }),
+        '/api/move',
+        params.paths
+      ),
+
+    copyEntries: async (params: {
+      root: string;
+      paths: string[];
+      targetRoot: string;
+      targetPath: string;
+    }) =>
+      readActionItems(
+        await request('/api/copy', { method: 'POST', body: params }),
+        '/api/copy',
+        params.paths
+      ),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
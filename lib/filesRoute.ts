@@ -0,0 +1,23 @@
+import { Href } from 'expo-router';
+
+/** Flattens the catch-all `path` route param back into a slash separated path. */
+export function pathFromParam(value: string | string[] | undefined) {
+  const segments = Array.isArray(value) ? value : value ? [value] : [];
+  return segments.filter(Boolean).join('/');
+}
+
+export function pathSegments(path: string) {
+  return path.split('/').filter(Boolean);
+}
+
+export function parentPath(path: string) {
+  return pathSegments(path).slice(0, -1).join('/');
+}
+
+export function folderHref(rootId: string, path: string): Href {
+  const segments = pathSegments(path);
+  if (!segments.length) {
+    return { pathname: '/files/[root]', params: { root: rootId } };
+  }
+  return { pathname: '/files/[root]/[...path]', params: { root: rootId, path: segments } };
+}
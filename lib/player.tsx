@@ -56,7 +56,7 @@ const normalizePlaybackState = (value: unknown): State | undefined => {
 };
 
 export function PlayerProvider({ children }: { children: React.ReactNode }) {
-  const { token } = useAuth();
+  const { token, activeProfile, verifySession } = useAuth();
   const [queue, setQueue] = useState<Track[]>([]);
   const [current, setCurrent] = useState<Track | null>(null);
   const [currentIndex, setCurrentIndex] = useState(-1);
@@ -170,6 +170,10 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
       .catch(() => {});
   });
 
+  useTrackPlayerEvents([Event.PlaybackError], () => {
+    verifySession();
+  });
+
   const toPlayerTrack = (track: Track): TrackPlayerTrack => {
     const durationValue = Number(track.duration);
     const duration = Number.isFinite(durationValue) && durationValue > 0 ? durationValue : undefined;
@@ -186,6 +190,74 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
     };
   };
 
+  // Tracks keep the headers they were added with, so swap them all out for the
+  // renewed token. The active track is reloaded where it was so it can keep
+  // streaming once the old token stops working.
+  const refreshQueueHeaders = async () => {
+    if (!playerReadyRef.current || !queueRef.current.length) {
+      return;
+    }
+    const activeIndex = await TrackPlayer.getActiveTrackIndex();
+    if (activeIndex === undefined || activeIndex < 0) {
+      return;
+    }
+    const tracks = queueRef.current;
+    const otherIndexes = tracks.map((_, index) => index).filter((index) => index !== activeIndex);
+    if (otherIndexes.length) {
+      await TrackPlayer.remove(otherIndexes);
+      const before = tracks.slice(0, activeIndex).map(toPlayerTrack);
+      const after = tracks.slice(activeIndex + 1).map(toPlayerTrack);
+      if (before.length) {
+        await TrackPlayer.add(before, 0);
+      }
+      if (after.length) {
+        await TrackPlayer.add(after);
+      }
+    }
+    const { position } = await TrackPlayer.getProgress();
+    const state = normalizePlaybackState(await TrackPlayer.getPlaybackState());
+    await TrackPlayer.load(toPlayerTrack(tracks[activeIndex]));
+    if (position > 0) {
+      await TrackPlayer.seekTo(position);
+    }
+    if (state === State.Playing) {
+      await TrackPlayer.play();
+    }
+  };
+
+  // Tracks from another server or account must not keep playing after a switch.
+  const profileId = activeProfile?.id || null;
+  const lastProfileRef = useRef(profileId);
+  useEffect(() => {
+    if (lastProfileRef.current === profileId) {
+      return;
+    }
+    lastProfileRef.current = profileId;
+    queueRef.current = [];
+    setQueue([]);
+    setCurrent(null);
+    setCurrentIndex(-1);
+    setPlaying(false);
+    setDurationMs(0);
+    setPositionMs(0);
+    setPlayerOpen(false);
+    setQueueOpen(false);
+    if (playerReadyRef.current) {
+      TrackPlayer.reset().catch(() => {});
+    }
+  }, [profileId]);
+
+  const lastTokenRef = useRef(token);
+  useEffect(() => {
+    if (lastTokenRef.current === token) {
+      return;
+    }
+    lastTokenRef.current = token;
+    if (token) {
+      refreshQueueHeaders().catch(() => {});
+    }
+  }, [token]);
+
   const playTrack = async (track: Track, nextQueue?: Track[]) => {
     if (!track?.rootId || !track?.path) {
       return;
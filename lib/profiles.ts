@@ -0,0 +1,199 @@
+import * as SecureStore from 'expo-secure-store';
+
+const PROFILES_KEY = 'nnc_profiles';
+const ACTIVE_PROFILE_KEY = 'nnc_active_profile';
+const LEGACY_TOKEN_KEY = 'nnc_token';
+const LEGACY_EXPIRES_KEY = 'nnc_token_expires';
+const LEGACY_SAVED_USER_KEY = 'nnc_saved_user';
+const LEGACY_SAVED_PASS_KEY = 'nnc_saved_pass';
+// Media sync preferences saved globally before profiles existed.
+const LEGACY_PREFERENCE_KEYS = [
+  'nnc_camera_sync_root',
+  'nnc_camera_sync_path',
+  'nnc_camera_sync_include_videos',
+  'nnc_camera_sync_source',
+  'nnc_camera_sync_folder_uri',
+  'nnc_camera_sync_mirror',
+  'nnc_camera_sync_conflict_policy',
+];
+
+export type ServerProfile = {
+  id: string;
+  baseUrl: string;
+  username: string;
+  token: string;
+  expiresAt: number | null;
+  devMode: boolean;
+};
+
+type StoredProfile = Omit<ServerProfile, 'token'>;
+
+// Tokens and credentials get their own SecureStore entries so the profile list
+// stays small (SecureStore values are size-limited on some platforms).
+const tokenKey = (id: string) => `nnc_token_${id}`;
+const savedUserKey = (id: string) => `nnc_saved_user_${id}`;
+const savedPassKey = (id: string) => `nnc_saved_pass_${id}`;
+
+export function createProfileId() {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Namespaces a per-profile preference key, e.g. the media sync settings. */
+export function profileScopedKey(key: string, profileId: string | null | undefined) {
+  return profileId ? `${key}_${profileId}` : key;
+}
+
+export function getProfileItem(key: string, profileId: string | null | undefined) {
+  return SecureStore.getItemAsync(profileScopedKey(key, profileId));
+}
+
+export async function setProfileItem(
+  key: string,
+  profileId: string | null | undefined,
+  value: string
+) {
+  await SecureStore.setItemAsync(profileScopedKey(key, profileId), value);
+}
+
+function parseStoredProfiles(raw: string | null): StoredProfile[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter((entry) => entry && typeof entry.id === 'string' && typeof entry.baseUrl === 'string')
+      .map((entry) => ({
+        id: entry.id,
+        baseUrl: entry.baseUrl,
+        username: String(entry.username || ''),
+        expiresAt: Number.isFinite(Number(entry.expiresAt)) ? Number(entry.expiresAt) : null,
+        devMode: Boolean(entry.devMode),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Hands preferences saved before profiles existed to the first profile and
+ * deletes the global copies, so later profiles (another server) start clean.
+ */
+async function migrateLegacyPreferences(profileId: string) {
+  await Promise.all(
+    LEGACY_PREFERENCE_KEYS.map(async (key) => {
+      const value = await SecureStore.getItemAsync(key);
+      if (value === null) {
+        return;
+      }
+      const scoped = profileScopedKey(key, profileId);
+      if ((await SecureStore.getItemAsync(scoped)) === null) {
+        await SecureStore.setItemAsync(scoped, value);
+      }
+      await SecureStore.deleteItemAsync(key);
+    })
+  );
+}
+
+async function migrateLegacySession(baseUrl: string): Promise<ServerProfile | null> {
+  const [token, expiresAt, user, pass] = await Promise.all([
+    SecureStore.getItemAsync(LEGACY_TOKEN_KEY),
+    SecureStore.getItemAsync(LEGACY_EXPIRES_KEY),
+    SecureStore.getItemAsync(LEGACY_SAVED_USER_KEY),
+    SecureStore.getItemAsync(LEGACY_SAVED_PASS_KEY),
+  ]);
+  if (!token) {
+    return null;
+  }
+  const profile: ServerProfile = {
+    id: createProfileId(),
+    baseUrl,
+    username: user || '',
+    token,
+    expiresAt: expiresAt && Number.isFinite(Number(expiresAt)) ? Number(expiresAt) : null,
+    devMode: false,
+  };
+  await SecureStore.setItemAsync(tokenKey(profile.id), token);
+  if (user && pass) {
+    await saveCredentials(profile.id, user, pass);
+  }
+  await Promise.all(
+    [LEGACY_TOKEN_KEY, LEGACY_EXPIRES_KEY, LEGACY_SAVED_USER_KEY, LEGACY_SAVED_PASS_KEY].map(
+      (key) => SecureStore.deleteItemAsync(key)
+    )
+  );
+  return profile;
+}
+
+export async function loadProfiles(baseUrl: string) {
+  const [rawProfiles, activeId] = await Promise.all([
+    SecureStore.getItemAsync(PROFILES_KEY),
+    SecureStore.getItemAsync(ACTIVE_PROFILE_KEY),
+  ]);
+  const stored = parseStoredProfiles(rawProfiles);
+  const profiles: ServerProfile[] = await Promise.all(
+    stored.map(async (profile) => ({
+      ...profile,
+      token: (await SecureStore.getItemAsync(tokenKey(profile.id))) || '',
+    }))
+  );
+  if (!profiles.length) {
+    const migrated = await migrateLegacySession(baseUrl);
+    if (migrated) {
+      await saveProfiles([migrated], migrated.id);
+      await migrateLegacyPreferences(migrated.id);
+      return { profiles: [migrated], activeId: migrated.id };
+    }
+  } else {
+    await migrateLegacyPreferences(profiles[0].id);
+  }
+  return {
+    profiles,
+    activeId: profiles.some((profile) => profile.id === activeId) ? activeId : null,
+  };
+}
+
+export async function saveProfiles(profiles: ServerProfile[], activeId: string | null) {
+  const stored: StoredProfile[] = profiles.map(({ token, ...rest }) => rest);
+  await SecureStore.setItemAsync(PROFILES_KEY, JSON.stringify(stored));
+  if (activeId) {
+    await SecureStore.setItemAsync(ACTIVE_PROFILE_KEY, activeId);
+  } else {
+    await SecureStore.deleteItemAsync(ACTIVE_PROFILE_KEY);
+  }
+  await Promise.all(
+    profiles.map((profile) =>
+      profile.token
+        ? SecureStore.setItemAsync(tokenKey(profile.id), profile.token)
+        : SecureStore.deleteItemAsync(tokenKey(profile.id))
+    )
+  );
+}
+
+export async function deleteProfileSecrets(profileId: string) {
+  await Promise.all([
+    SecureStore.deleteItemAsync(tokenKey(profileId)),
+    clearCredentials(profileId),
+  ]);
+}
+
+export async function loadCredentials(profileId: string) {
+  const [user, pass] = await Promise.all([
+    SecureStore.getItemAsync(savedUserKey(profileId)),
+    SecureStore.getItemAsync(savedPassKey(profileId)),
+  ]);
+  return user && pass ? { user, pass } : null;
+}
+
+export async function saveCredentials(profileId: string, user: string, pass: string) {
+  await SecureStore.setItemAsync(savedUserKey(profileId), user);
+  await SecureStore.setItemAsync(savedPassKey(profileId), pass);
+}
+
+export async function clearCredentials(profileId: string) {
+  await SecureStore.deleteItemAsync(savedUserKey(profileId));
+  await SecureStore.deleteItemAsync(savedPassKey(profileId));
+}
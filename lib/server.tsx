@@ -1,6 +1,8 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { apiJson } from './api';
 import { useAuth } from './auth';
+import { useConnection } from './connection';
+import { useSessionRenewal } from './session';
 
 export type RootInfo = { id: string; name?: string; path: string };
 export type ServerInfo = {
@@ -23,41 +25,64 @@ type ServerContextValue = {
   info: ServerInfo | null;
   status: IndexStatus | null;
   loading: boolean;
+  // False until the first bootstrap for this profile has answered.
+  loaded: boolean;
   refresh: () => Promise<void>;
 };
 
 const ServerContext = createContext<ServerContextValue | null>(null);
 
 export function ServerProvider({ children }: { children: React.ReactNode }) {
-  const { token, devMode, isAuthenticated } = useAuth();
+  const { token, devMode, isAuthenticated, activeProfile } = useAuth();
+  const { baseUrl } = useConnection();
   const [roots, setRoots] = useState<RootInfo[]>([]);
   const [info, setInfo] = useState<ServerInfo | null>(null);
   const [status, setStatus] = useState<IndexStatus | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const refreshIdRef = useRef(0);
+
+  useSessionRenewal(info?.auth?.sessionTtlHours);
 
   const refresh = async () => {
     if (!isAuthenticated && !devMode) {
       return;
     }
+    const refreshId = ++refreshIdRef.current;
     setLoading(true);
     const result = await apiJson('/api/bootstrap', { token: token || undefined });
+    if (refreshId !== refreshIdRef.current) {
+      return;
+    }
     if (result.ok) {
       setRoots(Array.isArray(result.data?.roots) ? result.data.roots : []);
       setInfo(result.data?.info || null);
       setStatus(result.data?.status || null);
     }
     setLoading(false);
+    setLoaded(true);
   };
 
+  // Roots belong to one server and account, so never show them under another profile.
+  useEffect(() => {
+    refreshIdRef.current += 1;
+    setRoots([]);
+    setInfo(null);
+    setStatus(null);
+    setLoading(false);
+    setLoaded(false);
+  }, [activeProfile?.id]);
+
   useEffect(() => {
     if (!isAuthenticated && !devMode) {
       setRoots([]);
       setInfo(null);
       setStatus(null);
+      setLoaded(false);
       return;
     }
     refresh();
-  }, [token, devMode, isAuthenticated]);
+  }, [token, devMode, isAuthenticated, baseUrl]);
 
   const value = useMemo<ServerContextValue>(
     () => ({
@@ -65,9 +90,10 @@ export function ServerProvider({ children }: { children: React.ReactNode }) {
       info,
       status,
       loading,
+      loaded,
       refresh,
     }),
-    [roots, info, status, loading]
+    [roots, info, status, loading, loaded]
   );
 
   return <ServerContext.Provider value={value}>{children}</ServerContext.Provider>;
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from './auth';
+
+const MIN_RENEW_MARGIN_MS = 60 * 1000;
+const MAX_RENEW_MARGIN_MS = 30 * 60 * 1000;
+const DEFAULT_RENEW_MARGIN_MS = 5 * 60 * 1000;
+const RETRY_DELAY_MS = 60 * 1000;
+// Android warns about (and may drop) very long JS timers, so long waits are split.
+const MAX_TIMER_MS = 10 * 60 * 1000;
+
+export function renewalMarginMs(ttlHours?: number | null) {
+  const ttlMs = Number(ttlHours || 0) * 60 * 60 * 1000;
+  if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+    return DEFAULT_RENEW_MARGIN_MS;
+  }
+  return Math.max(MIN_RENEW_MARGIN_MS, Math.min(MAX_RENEW_MARGIN_MS, ttlMs * 0.1));
+}
+
+export function renewalDueAt({
+  expiresAt,
+  ttlHours,
+  issuedAt,
+}: {
+  expiresAt: number | null;
+  ttlHours?: number | null;
+  issuedAt: number;
+}) {
+  const ttlMs = Number(ttlHours || 0) * 60 * 60 * 1000;
+  const effectiveExpiry =
+    expiresAt || (Number.isFinite(ttlMs) && ttlMs > 0 ? issuedAt + ttlMs : null);
+  if (!effectiveExpiry) {
+    return null;
+  }
+  return effectiveExpiry - renewalMarginMs(ttlHours);
+}
+
+/**
+ * Keeps the signed-in session alive by renewing it shortly before it lapses,
+ * so long-running playback and syncs never hit an expired token.
+ */
+export function useSessionRenewal(ttlHours?: number | null) {
+  const { token, expiresAt, renewSession } = useAuth();
+  const issuedAtRef = useRef(Date.now());
+  const renewingRef = useRef(false);
+
+  useEffect(() => {
+    issuedAtRef.current = Date.now();
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    const dueAt = renewalDueAt({ expiresAt, ttlHours, issuedAt: issuedAtRef.current });
+    if (!dueAt) {
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const schedule = (delay: number) => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(check, Math.max(0, Math.min(delay, MAX_TIMER_MS)));
+    };
+
+    const check = async () => {
+      if (cancelled || renewingRef.current) {
+        return;
+      }
+      const remaining = dueAt - Date.now();
+      if (remaining > 0) {
+        schedule(remaining);
+        return;
+      }
+      renewingRef.current = true;
+      const renewed = await renewSession().catch(() => false);
+      renewingRef.current = false;
+      // A successful renewal changes the token, which reschedules this effect.
+      if (!renewed && !cancelled) {
+        schedule(RETRY_DELAY_MS);
+      }
+    };
+
+    // Timers are paused while the app is backgrounded, so re-check on resume.
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        check();
+      }
+    });
+    check();
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      subscription.remove();
+    };
+  }, [token, expiresAt, ttlHours]);
+}
@@ -0,0 +1,145 @@
+import { API_ERROR_SERVER, API_ERROR_UNREACHABLE, ApiResult } from '../../apiClient';
+import { uploadCandidate } from '../engine';
+import { UploadCandidate } from '../plan';
+import { fetchUploadStatus, postUploadChunk, UploadSession } from '../transport';
+
+jest.mock('expo-file-system', () => ({
+  File: jest.fn().mockImplementation(() => ({
+    open: () => ({
+      offset: 0,
+      readBytes: (length: number) => new Uint8Array(length),
+      close: jest.fn(),
+    }),
+  })),
+}));
+
+jest.mock('../transport', () => ({
+  fetchUploadStatus: jest.fn(),
+  fetchUploadStatusBatch: jest.fn(),
+  postUploadChunk: jest.fn(),
+}));
+
+const mockPostUploadChunk = postUploadChunk as jest.MockedFunction<typeof postUploadChunk>;
+const mockFetchUploadStatus = fetchUploadStatus as jest.MockedFunction<typeof fetchUploadStatus>;
+
+const session: UploadSession = { rootId: 'root', uploadBasePath: 'Uploads', getToken: () => 't' };
+
+const candidate: UploadCandidate = {
+  kind: 'folder',
+  displayName: 'clip.mp4',
+  localUri: 'file:///clip.mp4',
+  size: 10,
+  initialOffset: 0,
+  remoteTarget: 'Uploads/clip.mp4',
+  monthBucket: '',
+  capturedAtIso: '',
+  overwrite: false,
+};
+
+const accepted = (offset: number): ApiResult => ({
+  ok: true,
+  status: 200,
+  data: { offset },
+  meta: null,
+});
+
+const failed = (code: string, status = 0): ApiResult => ({
+  ok: false,
+  status,
+  error: { message: `failed: ${code}`, code },
+});
+
+const sentOffsets = () => mockPostUploadChunk.mock.calls.map(([, , offset]) => offset);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('uploadCandidate', () => {
+  it('sends chunks in order from the resume offset', async () => {
+    mockPostUploadChunk.mockImplementation(async (_session, _candidate, offset, bytes) =>
+      accepted(offset + bytes.length)
+    );
+    const onProgress = jest.fn();
+
+    const complete = await uploadCandidate(
+      session,
+      { ...candidate, initialOffset: 2 },
+      { chunkBytes: 4, onProgress }
+    );
+
+    expect(complete).toBe(true);
+    expect(sentOffsets()).toEqual([2, 6]);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { offset: 6, advanced: 4 },
+      { offset: 10, advanced: 4 },
+    ]);
+  });
+
+  it('reconciles an offset mismatch from the status endpoint', async () => {
+    mockPostUploadChunk
+      .mockResolvedValueOnce(failed('offset_mismatch', 409))
+      .mockImplementation(async (_session, _candidate, offset, bytes) =>
+        accepted(offset + bytes.length)
+      );
+    mockFetchUploadStatus.mockResolvedValueOnce(accepted(8));
+
+    const complete = await uploadCandidate(session, candidate, { chunkBytes: 4 });
+
+    expect(complete).toBe(true);
+    expect(sentOffsets()).toEqual([0, 8]);
+  });
+
+  it('fails when the server offset does not move past ours', async () => {
+    mockPostUploadChunk.mockResolvedValue(failed('offset_mismatch', 409));
+    mockFetchUploadStatus.mockResolvedValue(accepted(0));
+
+    await expect(uploadCandidate(session, candidate, { chunkBytes: 4 })).rejects.toThrow(
+      'Upload offset mismatch could not be resolved'
+    );
+  });
+
+  it('does not retry an error retrying cannot fix', async () => {
+    mockPostUploadChunk.mockResolvedValue(failed('forbidden', 403));
+
+    await expect(uploadCandidate(session, candidate, { chunkBytes: 4 })).rejects.toThrow(
+      'failed: forbidden'
+    );
+    expect(mockPostUploadChunk).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with backoff', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('resends a chunk at the same offset after a transient failure', async () => {
+      mockPostUploadChunk
+        .mockResolvedValueOnce(failed(API_ERROR_SERVER, 503))
+        .mockImplementation(async (_session, _candidate, offset, bytes) =>
+          accepted(offset + bytes.length)
+        );
+
+      const upload = uploadCandidate(session, candidate, { chunkBytes: 4 });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(upload).resolves.toBe(true);
+      expect(sentOffsets()).toEqual([0, 0, 4, 8]);
+    });
+
+    it('gives up once the retries run out', async () => {
+      mockPostUploadChunk.mockResolvedValue(failed(API_ERROR_UNREACHABLE));
+
+      const upload = uploadCandidate(session, candidate, { chunkBytes: 4 });
+      const rejected = expect(upload).rejects.toThrow(`failed: ${API_ERROR_UNREACHABLE}`);
+      await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000 + 16000);
+
+      await rejected;
+      expect(sentOffsets()).toEqual([0, 0, 0, 0, 0, 0]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { renderCameraFileName, renderCameraFolder, usesServerCameraLayout } from '../naming';
+
+const context = {
+  capturedAt: new Date(2024, 2, 7, 9, 5, 3).getTime(),
+  originalName: 'IMG_0042.JPG',
+  album: 'Camera',
+  device: 'Pixel',
+};
+
+describe('renderCameraFolder', () => {
+  it('falls back to the year-month default', () => {
+    expect(renderCameraFolder('', context)).toBe('2024-03');
+  });
+
+  it('renders nested folders and cleans each segment', () => {
+    expect(renderCameraFolder('{device}/{year}/{album}: {day}', context)).toBe(
+      'Pixel/2024/Camera_ 07'
+    );
+  });
+
+  it('keeps unknown tokens verbatim', () => {
+    expect(renderCameraFolder('{yaer}', context)).toBe('{yaer}');
+  });
+});
+
+describe('renderCameraFileName', () => {
+  it('keeps the original name by default', () => {
+    expect(renderCameraFileName('  ', context)).toBe('IMG_0042.JPG');
+  });
+
+  it('renders the pattern and keeps the original extension', () => {
+    expect(renderCameraFileName('{date}_{time}_{original}', context)).toBe(
+      '2024-03-07_090503_IMG_0042.JPG'
+    );
+  });
+
+  it('does not let the pattern create folders', () => {
+    expect(renderCameraFileName('{album}/{original}', context)).toBe('Camera_IMG_0042.JPG');
+  });
+
+  it('replaces characters the server rejects', () => {
+    expect(renderCameraFileName('{original}?', context)).toBe('IMG_0042_.JPG');
+  });
+});
+
+describe('usesServerCameraLayout', () => {
+  it('is true only for the default templates', () => {
+    expect(usesServerCameraLayout('', '{original}')).toBe(true);
+    expect(usesServerCameraLayout('{year}-{month}', '')).toBe(true);
+    expect(usesServerCameraLayout('{year}', '{original}')).toBe(false);
+    expect(usesServerCameraLayout('', '{date}_{original}')).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import { advanceWatermark } from '../watermark';
+
+describe('advanceWatermark', () => {
+  it('moves up to the newest asset when everything is confirmed', () => {
+    const watermark = advanceWatermark(null, [
+      { id: 'a', modifiedAt: 100, confirmed: true },
+      { id: 'b', modifiedAt: 300, confirmed: true },
+    ]);
+
+    expect(watermark).toEqual({ time: 300, confirmed: { b: 300 } });
+  });
+
+  it('stops at the oldest unconfirmed asset', () => {
+    const watermark = advanceWatermark(null, [
+      { id: 'a', modifiedAt: 100, confirmed: true },
+      { id: 'b', modifiedAt: 200, confirmed: false },
+      { id: 'c', modifiedAt: 300, confirmed: true },
+    ]);
+
+    expect(watermark).toEqual({ time: 200, confirmed: { c: 300 } });
+  });
+
+  it('keeps earlier confirmations at or after the new time', () => {
+    const watermark = advanceWatermark({ time: 100, confirmed: { a: 100, b: 250 } }, [
+      { id: 'c', modifiedAt: 200, confirmed: false },
+    ]);
+
+    expect(watermark).toEqual({ time: 200, confirmed: { b: 250 } });
+  });
+
+  it('drops a confirmation once the asset fails again', () => {
+    const watermark = advanceWatermark({ time: 100, confirmed: { a: 150 } }, [
+      { id: 'a', modifiedAt: 150, confirmed: false },
+    ]);
+
+    expect(watermark).toEqual({ time: 150, confirmed: {} });
+  });
+
+  it('never moves backwards without new results', () => {
+    expect(advanceWatermark({ time: 500, confirmed: { a: 500 } }, [])).toEqual({
+      time: 500,
+      confirmed: { a: 500 },
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { MAX_CHUNK_BYTES, MIN_CHUNK_BYTES } from './plan';
+
+export const SYNC_CONCURRENCY_LEVELS = [1, 2, 3, 4];
+export const DEFAULT_SYNC_CONCURRENCY = 1;
+
+// Chunks are sized so each request takes about this long: long enough to
+// amortise request overhead, short enough that a stall or cancel costs little.
+const TARGET_CHUNK_MS = 2000;
+const RATE_WAIT_STEP_MS = 250;
+
+/** Picks the next chunk size from how long recent chunks took to send. */
+export type ChunkSizer = {
+  next: () => number;
+  record: (bytes: number, elapsedMs: number) => void;
+};
+
+/** Shared between parallel uploads so the cap applies to the sync as a whole. */
+export type RateLimiter = {
+  take: (bytes: number, shouldStop: () => boolean) => Promise<void>;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createChunkSizer(maxBytes = MAX_CHUNK_BYTES): ChunkSizer {
+  const max = Math.max(MIN_CHUNK_BYTES, Math.min(MAX_CHUNK_BYTES, maxBytes));
+  let size = max;
+  return {
+    next: () => size,
+    record: (bytes, elapsedMs) => {
+      if (bytes < size) {
+        // The last chunk of a file is short and says little about the link.
+        return;
+      }
+      if (elapsedMs > TARGET_CHUNK_MS * 2) {
+        size = Math.max(MIN_CHUNK_BYTES, Math.floor(size / 2));
+      } else if (elapsedMs < TARGET_CHUNK_MS / 2) {
+        size = Math.min(max, size * 2);
+      }
+    },
+  };
+}
+
+/** Largest chunk that still fits the target duration under a rate cap. */
+export function chunkLimitForRate(bytesPerSecond: number) {
+  return Math.max(MIN_CHUNK_BYTES, Math.floor((bytesPerSecond * TARGET_CHUNK_MS) / 1000));
+}
+
+export function createRateLimiter(bytesPerSecond: number): RateLimiter {
+  // The time the capped link is next free; each chunk books its share of it.
+  let nextFreeAt = 0;
+  return {
+    take: async (bytes, shouldStop) => {
+      const startAt = Math.max(Date.now(), nextFreeAt);
+      nextFreeAt = startAt + (bytes / bytesPerSecond) * 1000;
+      while (Date.now() < startAt && !shouldStop()) {
+        await sleep(Math.min(RATE_WAIT_STEP_MS, startAt - Date.now()));
+      }
+    },
+  };
+}
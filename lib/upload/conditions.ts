@@ -0,0 +1,114 @@
+import * as Battery from 'expo-battery';
+import * as Network from 'expo-network';
+
+/** When a sync may send data. Zero disables the battery threshold. */
+export type SyncConditions = {
+  wifiOnly: boolean;
+  unmeteredOnly: boolean;
+  chargingOnly: boolean;
+  minBatteryPercent: number;
+};
+
+export const DEFAULT_SYNC_CONDITIONS: SyncConditions = {
+  wifiOnly: false,
+  unmeteredOnly: false,
+  chargingOnly: false,
+  minBatteryPercent: 0,
+};
+
+const RECHECK_INTERVAL_MS = 10000;
+const PAUSED_POLL_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function hasSyncConditions(conditions: SyncConditions) {
+  return (
+    conditions.wifiOnly ||
+    conditions.unmeteredOnly ||
+    conditions.chargingOnly ||
+    conditions.minBatteryPercent > 0
+  );
+}
+
+/** Returns why a sync has to wait right now, or null when it may run. */
+export async function syncConditionsBlocker(conditions: SyncConditions) {
+  if (conditions.wifiOnly || conditions.unmeteredOnly) {
+    const network = await Network.getNetworkStateAsync();
+    if (!network.isConnected) {
+      return 'Waiting for a network connection.';
+    }
+    if (conditions.wifiOnly && network.type !== Network.NetworkStateType.WIFI) {
+      return 'Waiting for Wi-Fi.';
+    }
+    // expo-network has no metered flag; Wi-Fi and Ethernet are the unmetered links.
+    if (
+      conditions.unmeteredOnly &&
+      network.type !== Network.NetworkStateType.WIFI &&
+      network.type !== Network.NetworkStateType.ETHERNET
+    ) {
+      return 'Waiting for an unmetered network.';
+    }
+  }
+  if (conditions.chargingOnly || conditions.minBatteryPercent > 0) {
+    const power = await Battery.getPowerStateAsync();
+    const charging =
+      power.batteryState === Battery.BatteryState.CHARGING ||
+      power.batteryState === Battery.BatteryState.FULL;
+    if (conditions.chargingOnly && !charging) {
+      return 'Waiting for the device to charge.';
+    }
+    // The level is -1 where the platform cannot read it; do not block on that.
+    const percent = Math.round(power.batteryLevel * 100);
+    if (!charging && power.batteryLevel >= 0 && percent < conditions.minBatteryPercent) {
+      return `Waiting for battery above ${conditions.minBatteryPercent}% (now ${percent}%).`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Holds a running sync while its conditions are unmet. Checks are cached for a
+ * few seconds so calling `wait` before every chunk stays cheap. `onChange`
+ * gets the reason when the sync pauses and '' when it continues.
+ */
+export function createConditionGate(
+  conditions: SyncConditions,
+  shouldStop: () => boolean,
+  onChange: (pausedReason: string) => void
+) {
+  const enabled = hasSyncConditions(conditions);
+  let checkedAt = 0;
+  let blocker: string | null = null;
+
+  const check = async (force = false) => {
+    if (!enabled) {
+      return null;
+    }
+    if (force || Date.now() - checkedAt >= RECHECK_INTERVAL_MS) {
+      // A failed check is treated as met rather than stalling the sync forever.
+      blocker = await syncConditionsBlocker(conditions).catch(() => null);
+      checkedAt = Date.now();
+    }
+    return blocker;
+  };
+
+  const wait = async () => {
+    let reason = await check();
+    if (!reason) {
+      return;
+    }
+    onChange(reason);
+    while (reason && !shouldStop()) {
+      await sleep(PAUSED_POLL_MS);
+      reason = await check(true);
+      if (reason) {
+        onChange(reason);
+      }
+    }
+    if (!reason) {
+      onChange('');
+    }
+  };
+
+  return { check, wait };
+}
@@ -0,0 +1,30 @@
+type Listener<T> = (payload: T) => void;
+
+/** Minimal typed event emitter; `on` returns the matching unsubscribe. */
+export function createEmitter<Events extends Record<string, unknown>>() {
+  const listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  const on = <K extends keyof Events>(event: K, listener: Listener<Events[K]>) => {
+    let set = listeners.get(event);
+    if (!set) {
+      set = new Set();
+      listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set?.delete(listener);
+    };
+  };
+
+  const emit = <K extends keyof Events>(event: K, payload: Events[K]) => {
+    listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch {
+        // A failing listener must not break the upload that reported progress.
+      }
+    });
+  };
+
+  return { on, emit };
+}
@@ -0,0 +1,475 @@
+import { File as FsFile } from 'expo-file-system';
+import { API_ERROR_TIMEOUT, ApiResult, isAbortedError, isRetryableError } from '../apiClient';
+import { UploadStatusItem } from '../endpoints';
+import { ChunkSizer, RateLimiter } from './bandwidth';
+import { createEmitter } from './emitter';
+import {
+  ConflictPolicy,
+  decideFromStatus,
+  joinUploadPath,
+  MAX_CHUNK_BYTES,
+  renameCandidateForAttempt,
+  UploadCandidate,
+} from './plan';
+import {
+  fetchUploadStatus,
+  fetchUploadStatusBatch,
+  postUploadChunk,
+  UploadSession,
+} from './transport';
+
+const MAX_RENAME_ATTEMPTS = 50;
+// A chunk that fails on a dropped connection, timeout or 5xx is sent again
+// after 1s, 2s, 4s… up to this many times before the file is given up on.
+const CHUNK_RETRIES = 5;
+const CHUNK_RETRY_BASE_MS = 1000;
+const CHUNK_RETRY_MAX_MS = 30000;
+const RETRY_WAIT_STEP_MS = 250;
+
+export type PlanOutcome =
+  | { type: 'ready'; candidate: UploadCandidate }
+  | { type: 'skipped' }
+  | { type: 'failed'; error?: string };
+
+function statusItemFromResult(result: ApiResult): UploadStatusItem {
+  if (result.ok) {
+    return { index: 0, ok: true, status: result.data?.status, offset: result.data?.offset };
+  }
+  return { index: 0, ok: false, error: result.error };
+}
+
+function readyCandidate(candidate: UploadCandidate, offset: number, overwrite: boolean) {
+  return {
+    type: 'ready' as const,
+    candidate: {
+      ...candidate,
+      initialOffset: Math.max(0, Math.min(offset, candidate.size)),
+      overwrite,
+    },
+  };
+}
+
+async function waitBeforeRetry(attempt: number, stopped: () => boolean) {
+  const until =
+    Date.now() + Math.min(CHUNK_RETRY_MAX_MS, CHUNK_RETRY_BASE_MS * Math.pow(2, attempt - 1));
+  while (Date.now() < until && !stopped()) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(RETRY_WAIT_STEP_MS, until - Date.now()))
+    );
+  }
+}
+
+function safeCloseHandle(handle: { close: () => void } | null) {
+  if (!handle) {
+    return;
+  }
+  try {
+    handle.close();
+  } catch {
+    // no-op
+  }
+}
+
+/** Walks "name (1).ext", "name (2).ext"… until the server reports a free target. */
+export async function resolveRenamedCandidate(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  shouldStop: () => boolean = () => false,
+  signal?: AbortSignal
+): Promise<PlanOutcome> {
+  for (let attempt = 1; attempt <= MAX_RENAME_ATTEMPTS && !shouldStop(); attempt += 1) {
+    const renamed = renameCandidateForAttempt(candidate, attempt);
+    const statusResult = await fetchUploadStatus(session, renamed, false, signal);
+    if (!statusResult.ok) {
+      if (statusResult.error?.code === 'exists') {
+        continue;
+      }
+      return { type: 'failed', error: statusResult.error?.message };
+    }
+    const uploadStatus = String(statusResult.data?.status || 'ready');
+    const offset = Math.max(0, Number(statusResult.data?.offset || 0));
+    if (uploadStatus === 'complete' || offset >= renamed.size) {
+      return { type: 'skipped' };
+    }
+    return readyCandidate(renamed, offset, false);
+  }
+  return { type: 'failed', error: 'Could not find a free name for this file.' };
+}
+
+async function outcomeFor(
+  session: UploadSession,
+  statusItem: UploadStatusItem | null,
+  candidate: UploadCandidate,
+  policy: ConflictPolicy,
+  shouldStop: () => boolean,
+  signal?: AbortSignal
+): Promise<PlanOutcome> {
+  const decision = decideFromStatus(statusItem, candidate, policy);
+  if (decision.type === 'ready') {
+    return readyCandidate(candidate, decision.offset, decision.overwrite);
+  }
+  if (decision.type === 'rename') {
+    return resolveRenamedCandidate(session, candidate, shouldStop, signal);
+  }
+  if (decision.type === 'failed') {
+    return { type: 'failed', error: statusItem?.error?.message };
+  }
+  return decision;
+}
+
+/**
+ * Checks a batch of candidates in one request and settles each: ready to send
+ * (with its resume offset), skipped, or failed. Stops early when asked to.
+ */
+export async function planStatusBatch(
+  session: UploadSession,
+  candidates: UploadCandidate[],
+  policy: ConflictPolicy,
+  shouldStop: () => boolean = () => false
+) {
+  const statusItems = await fetchUploadStatusBatch(session, candidates, policy === 'overwrite');
+  const outcomes: PlanOutcome[] = [];
+  for (let index = 0; index < candidates.length && !shouldStop(); index += 1) {
+    outcomes.push(
+      await outcomeFor(session, statusItems[index], candidates[index], policy, shouldStop)
+    );
+  }
+  return outcomes;
+}
+
+export async function planCandidate(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  policy: ConflictPolicy,
+  signal?: AbortSignal
+) {
+  const result = await fetchUploadStatus(session, candidate, policy === 'overwrite', signal);
+  if (!result.ok && result.error?.code !== 'exists') {
+    return {
+      type: 'failed' as const,
+      error: result.error?.message || 'Failed to check upload status',
+    };
+  }
+  return outcomeFor(session, statusItemFromResult(result), candidate, policy, () => false, signal);
+}
+
+export type UploadProgress = {
+  offset: number;
+  advanced: number;
+};
+
+/**
+ * Sends one planned candidate chunk by chunk from its resume offset. When the
+ * server already holds more than we think (a concurrent or earlier attempt),
+ * the offset is reconciled from the status endpoint instead of failing.
+ * Transient failures are retried with backoff; a resent chunk the server
+ * already took is caught by the same offset reconciliation.
+ * Resolves with whether the file is now complete; throws once retries run out
+ * or on an error retrying cannot fix.
+ * Chunks go strictly in order: the server only appends at the current offset.
+ */
+export async function uploadCandidate(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  {
+    chunkBytes = MAX_CHUNK_BYTES,
+    chunkSizer,
+    rateLimiter,
+    beforeChunk,
+    signal,
+    shouldStop = () => false,
+    onProgress,
+  }: {
+    chunkBytes?: number;
+    // Overrides `chunkBytes` with a size adapted to measured throughput.
+    chunkSizer?: ChunkSizer;
+    rateLimiter?: RateLimiter;
+    // Awaited before each chunk, e.g. to hold the upload while it may not send.
+    beforeChunk?: () => Promise<void>;
+    signal?: AbortSignal;
+    shouldStop?: () => boolean;
+    onProgress?: (progress: UploadProgress) => void;
+  } = {}
+) {
+  let offset = Math.max(0, Math.min(candidate.initialOffset, candidate.size));
+  let handle: ReturnType<FsFile['open']> | null = null;
+  const stopped = () => shouldStop() || Boolean(signal?.aborted);
+  let attempt = 0;
+  const retryOrThrow = async (result: Extract<ApiResult, { ok: false }>, fallback: string) => {
+    if (!isRetryableError(result) || attempt >= CHUNK_RETRIES) {
+      throw new Error(result.error?.message || fallback);
+    }
+    attempt += 1;
+    await waitBeforeRetry(attempt, stopped);
+  };
+
+  try {
+    handle = new FsFile(candidate.localUri).open();
+    handle.offset = offset;
+
+    while (offset < candidate.size && !stopped()) {
+      await beforeChunk?.();
+      if (stopped()) {
+        break;
+      }
+      const nextChunkBytes = chunkSizer ? chunkSizer.next() : chunkBytes;
+      const chunk = handle.readBytes(Math.min(nextChunkBytes, candidate.size - offset));
+      if (!chunk?.length) {
+        throw new Error('Failed to read file chunk');
+      }
+      await rateLimiter?.take(chunk.length, stopped);
+      if (stopped()) {
+        break;
+      }
+
+      const sentAt = Date.now();
+      const chunkResult = await postUploadChunk(session, candidate, offset, chunk, signal);
+      if (isAbortedError(chunkResult)) {
+        break;
+      }
+      // A timed-out chunk was too big for the link as much as a slow one.
+      if (chunkResult.ok || chunkResult.error?.code === API_ERROR_TIMEOUT) {
+        chunkSizer?.record(chunk.length, Date.now() - sentAt);
+      }
+      let nextOffset: number;
+      if (!chunkResult.ok) {
+        if (chunkResult.error?.code !== 'offset_mismatch') {
+          await retryOrThrow(chunkResult, 'Chunk upload failed');
+          handle.offset = offset;
+          continue;
+        }
+        const statusResult = await fetchUploadStatus(
+          session,
+          candidate,
+          candidate.overwrite,
+          signal
+        );
+        if (isAbortedError(statusResult)) {
+          break;
+        }
+        if (!statusResult.ok) {
+          await retryOrThrow(statusResult, 'Failed to recover upload offset');
+          handle.offset = offset;
+          continue;
+        }
+        nextOffset = Math.max(0, Number(statusResult.data?.offset || 0));
+        if (nextOffset <= offset) {
+          throw new Error('Upload offset mismatch could not be resolved');
+        }
+      } else {
+        nextOffset = Math.max(offset + chunk.length, Number(chunkResult.data?.offset || 0));
+      }
+
+      attempt = 0;
+      const advanced = Math.max(0, nextOffset - offset);
+      offset = nextOffset;
+      handle.offset = offset;
+      onProgress?.({ offset, advanced });
+    }
+  } finally {
+    safeCloseHandle(handle);
+  }
+
+  return offset >= candidate.size;
+}
+
+export type UploadTaskStatus = 'queued' | 'uploading' | 'done' | 'skipped' | 'failed' | 'cancelled';
+
+export type UploadTask = {
+  id: string;
+  owner: string | null;
+  rootId: string;
+  basePath: string;
+  candidate: UploadCandidate;
+  policy: ConflictPolicy;
+  status: UploadTaskStatus;
+  sent: number;
+  target: string;
+  error: string | null;
+  createdAt: number;
+};
+
+export type NewUploadTask = Pick<UploadTask, 'owner' | 'rootId' | 'basePath' | 'policy'> & {
+  name: string;
+  localUri: string;
+  size: number;
+};
+
+type QueueEvents = {
+  change: UploadTask;
+  settled: UploadTask;
+};
+
+/**
+ * Runs folder uploads one at a time. Tasks whose owner cannot run right now
+ * (another account is active, no session) wait in the queue; `pump` is called
+ * again when that changes. Listeners get a fresh task object on every change.
+ */
+export function createUploadQueue({
+  getToken,
+  getChunkBytes,
+  canRun,
+}: {
+  getToken: () => string | null;
+  getChunkBytes: () => number;
+  canRun: (task: UploadTask) => boolean;
+}) {
+  const emitter = createEmitter<QueueEvents>();
+  let tasks: UploadTask[] = [];
+  let active: { id: string; controller: AbortController; stopAs?: UploadTaskStatus } | null = null;
+
+  const update = (id: string, patch: Partial<UploadTask>) => {
+    let changed: UploadTask | null = null;
+    tasks = tasks.map((task) => {
+      if (task.id !== id) {
+        return task;
+      }
+      changed = { ...task, ...patch };
+      return changed;
+    });
+    if (changed) {
+      emitter.emit('change', changed);
+    }
+    return changed as UploadTask | null;
+  };
+
+  const settle = (id: string, patch: Partial<UploadTask>) => {
+    const task = update(id, patch);
+    if (task) {
+      emitter.emit('settled', task);
+    }
+  };
+
+  const run = async (task: UploadTask) => {
+    const controller = new AbortController();
+    active = { id: task.id, controller };
+    const session: UploadSession = { rootId: task.rootId, uploadBasePath: task.basePath, getToken };
+    let sent = 0;
+    update(task.id, { status: 'uploading', error: null, sent });
+    try {
+      const plan = await planCandidate(session, task.candidate, task.policy, controller.signal);
+      if (active?.stopAs) {
+        throw new Error('stopped');
+      }
+      if (plan.type === 'skipped') {
+        settle(task.id, { status: 'skipped' });
+        return;
+      }
+      if (plan.type === 'failed') {
+        throw new Error(plan.error || 'Failed to check upload status');
+      }
+      const candidate = plan.candidate;
+      sent = candidate.initialOffset;
+      update(task.id, { target: candidate.remoteTarget, sent });
+      const complete = await uploadCandidate(session, candidate, {
+        chunkBytes: getChunkBytes(),
+        signal: controller.signal,
+        onProgress: ({ offset }) => {
+          sent = offset;
+          update(task.id, { sent: Math.min(offset, candidate.size) });
+        },
+      });
+      if (!complete) {
+        throw new Error('stopped');
+      }
+      settle(task.id, { status: 'done', sent: candidate.size });
+    } catch (error: any) {
+      const stopAs = active?.stopAs;
+      if (stopAs) {
+        update(task.id, { status: stopAs, sent });
+      } else {
+        settle(task.id, { status: 'failed', sent, error: error?.message || 'Upload failed.' });
+      }
+    } finally {
+      active = null;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (active) {
+      return;
+    }
+    const next = tasks.find((task) => task.status === 'queued' && canRun(task));
+    if (next) {
+      run(next);
+    }
+  };
+
+  const add = (newTasks: NewUploadTask[]) => {
+    const now = Date.now();
+    const added = newTasks.map((item, index): UploadTask => {
+      const remoteTarget = joinUploadPath(item.basePath, item.name);
+      return {
+        id: `u${now.toString(36)}${index}${Math.random().toString(36).slice(2, 6)}`,
+        owner: item.owner,
+        rootId: item.rootId,
+        basePath: item.basePath,
+        policy: item.policy,
+        candidate: {
+          kind: 'folder',
+          displayName: item.name,
+          localUri: item.localUri,
+          size: item.size,
+          initialOffset: 0,
+          remoteTarget,
+          monthBucket: '',
+          capturedAtIso: '',
+          overwrite: false,
+        },
+        status: 'queued',
+        sent: 0,
+        target: remoteTarget,
+        error: null,
+        createdAt: now,
+      };
+    });
+    tasks = [...tasks, ...added];
+    added.forEach((task) => emitter.emit('change', task));
+    pump();
+    return added;
+  };
+
+  /** Stops the running task and leaves it in `status`, e.g. 'queued' to resume later. */
+  const stop = (id: string, status: UploadTaskStatus) => {
+    if (active?.id === id) {
+      active.stopAs = status;
+      active.controller.abort();
+      return;
+    }
+    const task = tasks.find((item) => item.id === id);
+    if (task?.status === 'queued') {
+      update(id, { status });
+    }
+  };
+
+  const retry = (id: string) => {
+    const task = tasks.find((item) => item.id === id);
+    if (task && (task.status === 'failed' || task.status === 'cancelled')) {
+      update(id, { status: 'queued', error: null });
+      pump();
+    }
+  };
+
+  const remove = (ids: string[]) => {
+    const removed = new Set(ids);
+    if (active && removed.has(active.id)) {
+      active.stopAs = 'cancelled';
+      active.controller.abort();
+    }
+    tasks = tasks.filter((task) => !removed.has(task.id));
+  };
+
+  return {
+    on: emitter.on,
+    tasks: () => tasks,
+    activeId: () => active?.id || null,
+    add,
+    stop,
+    retry,
+    remove,
+    pump,
+  };
+}
+
+export type UploadQueue = ReturnType<typeof createUploadQueue>;
@@ -0,0 +1,138 @@
+export type SyncFileType = 'image' | 'video' | 'audio' | 'document' | 'other';
+
+export const SYNC_FILE_TYPES: SyncFileType[] = ['image', 'video', 'audio', 'document', 'other'];
+
+/**
+ * Which local files a sync considers. Patterns without a slash match any single
+ * path segment ("*.tmp", ".thumbnails"); patterns with one match the whole
+ * relative path, where "**" spans folders. Zero disables the size and age limits.
+ */
+export type SyncFilters = {
+  include: string[];
+  exclude: string[];
+  maxSizeMb: number;
+  minAgeMinutes: number;
+  types: SyncFileType[];
+};
+
+export type FilterableFile = {
+  path: string;
+  size: number;
+  modifiedAt: number | null;
+};
+
+export const DEFAULT_SYNC_EXCLUDE = [
+  '.thumbnails',
+  '.nomedia',
+  '.trashed-*',
+  '.pending-*',
+  '*.tmp',
+  '*.part',
+];
+
+export const DEFAULT_SYNC_FILTERS: SyncFilters = {
+  include: [],
+  exclude: DEFAULT_SYNC_EXCLUDE,
+  maxSizeMb: 0,
+  minAgeMinutes: 0,
+  types: SYNC_FILE_TYPES,
+};
+
+export const SKIP_REASON_EXISTS = 'already on server';
+export const SKIP_REASON_EXCLUDED = 'excluded by pattern';
+export const SKIP_REASON_NOT_INCLUDED = 'not matched by include patterns';
+export const SKIP_REASON_TOO_LARGE = 'over size limit';
+export const SKIP_REASON_TOO_NEW = 'changed too recently';
+export const SKIP_REASON_FILE_TYPE = 'file type not selected';
+
+const TYPE_EXTENSIONS: Record<Exclude<SyncFileType, 'other'>, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif', 'bmp', 'tif', 'tiff', 'dng', 'raw'],
+  video: ['mp4', 'mov', 'mkv', 'webm', 'avi', 'm4v', '3gp', 'mts'],
+  audio: ['mp3', 'm4a', 'aac', 'flac', 'wav', 'ogg', 'opus', 'amr'],
+  document: ['pdf', 'txt', 'md', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'csv', 'epub'],
+};
+
+export function parsePatternList(value: string) {
+  return String(value || '')
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parseFileTypes(value: string | null | undefined) {
+  if (value == null) {
+    return SYNC_FILE_TYPES;
+  }
+  return parsePatternList(value).filter((item): item is SyncFileType =>
+    SYNC_FILE_TYPES.includes(item as SyncFileType)
+  );
+}
+
+export function fileTypeOf(name: string): SyncFileType {
+  const lastDot = name.lastIndexOf('.');
+  const ext = lastDot >= 0 ? name.slice(lastDot + 1).toLowerCase() : '';
+  for (const [type, extensions] of Object.entries(TYPE_EXTENSIONS)) {
+    if (extensions.includes(ext)) {
+      return type as SyncFileType;
+    }
+  }
+  return 'other';
+}
+
+function globToRegExp(glob: string) {
+  let source = '';
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      source += '.*';
+      index += glob[index + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function matchesPattern(path: string, pattern: string) {
+  const normalized = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+  if (!normalized) {
+    return false;
+  }
+  const matcher = globToRegExp(normalized);
+  if (normalized.includes('/')) {
+    return matcher.test(path);
+  }
+  return path.split('/').some((segment) => matcher.test(segment));
+}
+
+/** Returns why a file is left out of the sync, or null when it should be planned. */
+export function filterSkipReason(file: FilterableFile, filters: SyncFilters, now = Date.now()) {
+  const name = file.path.split('/').pop() || file.path;
+  if (filters.exclude.some((pattern) => matchesPattern(file.path, pattern))) {
+    return SKIP_REASON_EXCLUDED;
+  }
+  if (
+    filters.include.length &&
+    !filters.include.some((pattern) => matchesPattern(file.path, pattern))
+  ) {
+    return SKIP_REASON_NOT_INCLUDED;
+  }
+  if (!filters.types.includes(fileTypeOf(name))) {
+    return SKIP_REASON_FILE_TYPE;
+  }
+  if (filters.maxSizeMb > 0 && file.size > filters.maxSizeMb * 1024 * 1024) {
+    return SKIP_REASON_TOO_LARGE;
+  }
+  if (
+    filters.minAgeMinutes > 0 &&
+    file.modifiedAt &&
+    now - file.modifiedAt < filters.minAgeMinutes * 60 * 1000
+  ) {
+    return SKIP_REASON_TOO_NEW;
+  }
+  return null;
+}
@@ -0,0 +1,10 @@
+export * from './plan';
+export * from './filters';
+export * from './naming';
+export * from './trash';
+export * from './bandwidth';
+export * from './conditions';
+export * from './transport';
+export * from './engine';
+export * from './local';
+export { createEmitter } from './emitter';
@@ -0,0 +1,56 @@
+import { Directory as FsDirectory, File as FsFile } from 'expo-file-system';
+import { joinUploadPath, LocalFolderFile } from './plan';
+
+/** Lists every file below a picked folder with its path relative to that folder. */
+export async function collectLocalFolderFiles(rootUri: string) {
+  const root = new FsDirectory(rootUri);
+  const stack: Array<{ dir: FsDirectory; relPath: string }> = [{ dir: root, relPath: '' }];
+  const files: LocalFolderFile[] = [];
+  let discovered = 0;
+  let failed = 0;
+
+  while (stack.length) {
+    const current = stack.pop();
+    if (!current) {
+      continue;
+    }
+
+    let entries: Array<FsDirectory | FsFile>;
+    try {
+      entries = current.dir.list() as Array<FsDirectory | FsFile>;
+    } catch {
+      failed += 1;
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (entry instanceof FsDirectory) {
+        const nextRel = joinUploadPath(current.relPath, entry.name || '');
+        stack.push({ dir: entry, relPath: nextRel });
+        continue;
+      }
+
+      if (!(entry instanceof FsFile)) {
+        continue;
+      }
+
+      discovered += 1;
+      const relativePath = joinUploadPath(current.relPath, entry.name || '');
+      const size = Number(entry.size || 0);
+      if (!relativePath || !Number.isFinite(size) || size < 0) {
+        failed += 1;
+        continue;
+      }
+
+      files.push({
+        localUri: entry.uri,
+        relativePath,
+        displayName: relativePath,
+        size,
+        modifiedAt: entry.modificationTime ?? null,
+      });
+    }
+  }
+
+  return { files, discovered, failed };
+}
@@ -0,0 +1,94 @@
+import { joinUploadPath } from './plan';
+
+export const DEFAULT_FOLDER_TEMPLATE = '{year}-{month}';
+export const DEFAULT_NAME_PATTERN = '{original}';
+
+export const NAMING_TOKENS = [
+  'year',
+  'month',
+  'day',
+  'hour',
+  'minute',
+  'date',
+  'time',
+  'album',
+  'device',
+  'original',
+];
+
+/** What a camera asset's folder template and file name pattern are rendered from. */
+export type NamingContext = {
+  capturedAt: number;
+  originalName: string;
+  album: string;
+  device: string;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function splitExtension(fileName: string) {
+  const lastDot = fileName.lastIndexOf('.');
+  if (lastDot <= 0) {
+    return { base: fileName, ext: '' };
+  }
+  return { base: fileName.slice(0, lastDot), ext: fileName.slice(lastDot) };
+}
+
+function cleanSegment(value: string) {
+  return value.replace(/[\\:*?"<>|]+/g, '_').trim();
+}
+
+function tokenValues({ capturedAt, originalName, album, device }: NamingContext) {
+  const date = new Date(capturedAt);
+  const year = String(date.getFullYear());
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+  const hour = pad(date.getHours());
+  const minute = pad(date.getMinutes());
+  const second = pad(date.getSeconds());
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    date: `${year}-${month}-${day}`,
+    time: `${hour}${minute}${second}`,
+    album: album || 'Library',
+    device: device || 'Device',
+    original: splitExtension(originalName).base,
+  } as Record<string, string>;
+}
+
+// Unknown tokens are kept verbatim so a typo shows up in the preview instead of vanishing.
+function render(template: string, context: NamingContext) {
+  const values = tokenValues(context);
+  return template.replace(/\{(\w+)\}/g, (match, token: string) =>
+    token in values ? values[token] : match
+  );
+}
+
+/** Whether the layout is the one the server builds itself from `cameraMonth`. */
+export function usesServerCameraLayout(folderTemplate: string, namePattern: string) {
+  return (
+    (folderTemplate.trim() || DEFAULT_FOLDER_TEMPLATE) === DEFAULT_FOLDER_TEMPLATE &&
+    (namePattern.trim() || DEFAULT_NAME_PATTERN) === DEFAULT_NAME_PATTERN
+  );
+}
+
+export function renderCameraFolder(template: string, context: NamingContext) {
+  return joinUploadPath(
+    ...render(template.trim() || DEFAULT_FOLDER_TEMPLATE, context)
+      .split('/')
+      .map(cleanSegment)
+  );
+}
+
+/** Renders the file name pattern; the original extension is always kept. */
+export function renderCameraFileName(pattern: string, context: NamingContext) {
+  const rendered = cleanSegment(
+    render(pattern.trim() || DEFAULT_NAME_PATTERN, context).replace(/\//g, '_')
+  );
+  const { base, ext } = splitExtension(context.originalName);
+  return `${rendered || base}${ext}`;
+}
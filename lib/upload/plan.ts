@@ -0,0 +1,259 @@
+import { UploadStatusItem, UploadStatusPayload } from '../endpoints';
+
+export const MIN_CHUNK_BYTES = 256 * 1024;
+export const MAX_CHUNK_BYTES = 2 * 1024 * 1024;
+
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * One local file to send. Camera uploads address the server by base path, file
+ * name and capture month unless a naming template gave them a remote target;
+ * folder uploads always name their full remote target.
+ */
+export type UploadCandidate = {
+  kind: 'camera' | 'folder';
+  displayName: string;
+  localUri: string;
+  size: number;
+  initialOffset: number;
+  remoteTarget: string;
+  monthBucket: string;
+  capturedAtIso: string;
+  overwrite: boolean;
+  // Media library ID, so a camera sync can record which assets it confirmed.
+  assetId?: string;
+  // Album subfolder below the base path that a camera upload is filed into.
+  cameraFolder?: string;
+};
+
+export type LocalFolderFile = {
+  localUri: string;
+  relativePath: string;
+  displayName: string;
+  size: number;
+  modifiedAt: number | null;
+};
+
+export type StatusDecision =
+  | { type: 'ready'; offset: number; overwrite: boolean }
+  | { type: 'skipped' }
+  | { type: 'rename' }
+  | { type: 'failed' };
+
+export function usesCameraParams(candidate: UploadCandidate) {
+  return candidate.kind === 'camera' && !candidate.remoteTarget;
+}
+
+export function normalizeUploadPath(value: string) {
+  return String(value || '')
+    .replace(/\\/g, '/')
+    .replace(/^\/+/, '')
+    .replace(/\/+$/, '');
+}
+
+export function joinUploadPath(...parts: string[]) {
+  const segments: string[] = [];
+  for (const part of parts) {
+    const normalized = normalizeUploadPath(part);
+    if (!normalized) {
+      continue;
+    }
+    for (const segment of normalized.split('/')) {
+      if (!segment || segment === '.') {
+        continue;
+      }
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+export function normalizeTimestamp(value: number | null | undefined) {
+  const numeric = Number(value || 0);
+  if (!Number.isFinite(numeric) || numeric <= 0) {
+    return Date.now();
+  }
+  return numeric < 1e12 ? numeric * 1000 : numeric;
+}
+
+export function monthBucketFromTime(timestamp: number) {
+  const value = normalizeTimestamp(timestamp);
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${date.getFullYear()}-${month}`;
+}
+
+export function sanitizeFileName(name: string, fallbackId: string) {
+  const normalized = String(name || '')
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, '_');
+  if (normalized) {
+    return normalized;
+  }
+  return `${fallbackId}.jpg`;
+}
+
+function splitNameAndExt(fileName: string) {
+  const raw = String(fileName || '');
+  const lastDot = raw.lastIndexOf('.');
+  if (lastDot <= 0) {
+    return { name: raw, ext: '' };
+  }
+  return {
+    name: raw.slice(0, lastDot),
+    ext: raw.slice(lastDot),
+  };
+}
+
+export function addConflictSuffix(fileName: string, attempt: number) {
+  if (!Number.isFinite(attempt) || attempt <= 0) {
+    return fileName;
+  }
+  const { name, ext } = splitNameAndExt(fileName);
+  return `${name} (${attempt})${ext}`;
+}
+
+function renameRemoteTarget(remoteTarget: string, attempt: number) {
+  const normalized = normalizeUploadPath(remoteTarget);
+  if (!normalized) {
+    return normalized;
+  }
+  const parts = normalized.split('/');
+  const fileName = parts.pop() || '';
+  const nextName = addConflictSuffix(fileName, attempt);
+  return parts.length ? `${parts.join('/')}/${nextName}` : nextName;
+}
+
+export function renameCandidateForAttempt(
+  candidate: UploadCandidate,
+  attempt: number
+): UploadCandidate {
+  if (attempt <= 0) {
+    return candidate;
+  }
+  if (usesCameraParams(candidate)) {
+    const nextName = addConflictSuffix(candidate.displayName, attempt);
+    return {
+      ...candidate,
+      displayName: nextName,
+      overwrite: false,
+    };
+  }
+  const nextTarget = renameRemoteTarget(candidate.remoteTarget, attempt);
+  return {
+    ...candidate,
+    remoteTarget: nextTarget,
+    displayName: nextTarget,
+    overwrite: false,
+  };
+}
+
+export function cameraBasePath(uploadBasePath: string, candidate: UploadCandidate) {
+  return joinUploadPath(uploadBasePath, candidate.cameraFolder || '');
+}
+
+export function clampChunkBytes(serverChunk: number | null | undefined) {
+  const value = Number(serverChunk || 0);
+  if (!Number.isFinite(value) || value <= 0) {
+    return MAX_CHUNK_BYTES;
+  }
+  return Math.max(MIN_CHUNK_BYTES, Math.min(MAX_CHUNK_BYTES, value));
+}
+
+// Mirror sync keeps exactly one remote copy per local file, so "keep both" becomes overwrite.
+export function effectiveConflictPolicy(policy: ConflictPolicy, mirror: boolean): ConflictPolicy {
+  return mirror && policy === 'rename' ? 'overwrite' : policy;
+}
+
+export function buildStatusPayload({
+  uploadBasePath,
+  candidate,
+  overwrite,
+}: {
+  uploadBasePath: string;
+  candidate: UploadCandidate;
+  overwrite: boolean;
+}): UploadStatusPayload {
+  if (usesCameraParams(candidate)) {
+    return {
+      path: cameraBasePath(uploadBasePath, candidate),
+      file: candidate.displayName,
+      size: candidate.size,
+      overwrite: overwrite ? 1 : 0,
+      camera: 1,
+      cameraMonth: candidate.monthBucket,
+      capturedAt: candidate.capturedAtIso,
+    };
+  }
+  return {
+    target: candidate.remoteTarget,
+    size: candidate.size,
+    overwrite: overwrite ? 1 : 0,
+  };
+}
+
+export function normalizeBatchStatusItems(rawItems: UploadStatusItem[], expected: number) {
+  const byIndex: Array<UploadStatusItem | null> = Array.from({ length: expected }, () => null);
+  for (const entry of rawItems) {
+    const index = Number(entry?.index);
+    if (!Number.isInteger(index) || index < 0 || index >= expected) {
+      continue;
+    }
+    byIndex[index] = entry;
+  }
+  return byIndex;
+}
+
+/** Turns one server status answer into what the planner should do with the file. */
+export function decideFromStatus(
+  statusItem: UploadStatusItem | null,
+  candidate: UploadCandidate,
+  policy: ConflictPolicy
+): StatusDecision {
+  if (!statusItem) {
+    return { type: 'failed' };
+  }
+  const uploadStatus = String(
+    statusItem.status || (statusItem.ok ? 'ready' : statusItem.error?.code || 'error')
+  );
+  const offset = Math.max(0, Number(statusItem.offset || 0));
+  if (uploadStatus === 'ready') {
+    return {
+      type: 'ready',
+      offset: Math.min(offset, candidate.size),
+      overwrite: policy === 'overwrite',
+    };
+  }
+  if (uploadStatus === 'complete' || offset >= candidate.size) {
+    return { type: 'skipped' };
+  }
+  if (uploadStatus === 'exists') {
+    if (policy === 'skip') {
+      return { type: 'skipped' };
+    }
+    if (policy === 'rename') {
+      return { type: 'rename' };
+    }
+  }
+  return { type: 'failed' };
+}
+
+export function buildFolderCandidates({
+  files,
+  uploadBasePath,
+}: {
+  files: LocalFolderFile[];
+  uploadBasePath: string;
+}): UploadCandidate[] {
+  return files.map((file) => ({
+    kind: 'folder' as const,
+    displayName: file.relativePath,
+    localUri: file.localUri,
+    size: file.size,
+    initialOffset: 0,
+    remoteTarget: joinUploadPath(uploadBasePath, file.relativePath),
+    monthBucket: '',
+    capturedAtIso: '',
+    overwrite: false,
+  }));
+}
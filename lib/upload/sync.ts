@@ -0,0 +1,1268 @@
+import * as MediaLibrary from 'expo-media-library';
+import { Platform } from 'react-native';
+import { File as FsFile, Paths } from 'expo-file-system';
+import { apiJson } from '../apiClient';
+import { createApiClient } from '../endpoints';
+import { getProfileItem } from '../profiles';
+import {
+  chunkLimitForRate,
+  createChunkSizer,
+  createRateLimiter,
+  DEFAULT_SYNC_CONCURRENCY,
+  SYNC_CONCURRENCY_LEVELS,
+} from './bandwidth';
+import { createConditionGate, DEFAULT_SYNC_CONDITIONS, SyncConditions } from './conditions';
+import { planStatusBatch, uploadCandidate } from './engine';
+import {
+  DEFAULT_SYNC_EXCLUDE,
+  filterSkipReason,
+  parseFileTypes,
+  parsePatternList,
+  SKIP_REASON_EXISTS,
+  SKIP_REASON_TOO_NEW,
+  SyncFilters,
+} from './filters';
+import { collectLocalFolderFiles } from './local';
+import {
+  DEFAULT_FOLDER_TEMPLATE,
+  DEFAULT_NAME_PATTERN,
+  renderCameraFileName,
+  renderCameraFolder,
+  usesServerCameraLayout,
+} from './naming';
+import {
+  buildFolderCandidates,
+  cameraBasePath,
+  ConflictPolicy,
+  effectiveConflictPolicy,
+  joinUploadPath,
+  MAX_CHUNK_BYTES,
+  monthBucketFromTime,
+  normalizeTimestamp,
+  normalizeUploadPath,
+  sanitizeFileName,
+  UploadCandidate,
+} from './plan';
+import { UploadSession } from './transport';
+import {
+  DEFAULT_PRUNE_LIMITS,
+  isTrashPath,
+  moveToTrash,
+  pruneLimitError,
+  PruneLimits,
+  trashRunPath,
+} from './trash';
+import {
+  advanceWatermark,
+  AssetSyncResult,
+  isAssetConfirmed,
+  readWatermark,
+  SyncWatermark,
+  watermarkKey,
+  writeWatermark,
+} from './watermark';
+
+export const CAMERA_SYNC_ROOT_KEY = 'nnc_camera_sync_root';
+export const CAMERA_SYNC_PATH_KEY = 'nnc_camera_sync_path';
+export const CAMERA_SYNC_INCLUDE_VIDEOS_KEY = 'nnc_camera_sync_include_videos';
+export const CAMERA_SYNC_SOURCE_KEY = 'nnc_camera_sync_source';
+export const CAMERA_SYNC_FOLDER_URI_KEY = 'nnc_camera_sync_folder_uri';
+export const CAMERA_SYNC_MIRROR_KEY = 'nnc_camera_sync_mirror';
+export const CAMERA_SYNC_CONFLICT_POLICY_KEY = 'nnc_camera_sync_conflict_policy';
+export const CAMERA_SYNC_INCLUDE_KEY = 'nnc_camera_sync_include';
+export const CAMERA_SYNC_EXCLUDE_KEY = 'nnc_camera_sync_exclude';
+export const CAMERA_SYNC_MAX_SIZE_KEY = 'nnc_camera_sync_max_size_mb';
+export const CAMERA_SYNC_MIN_AGE_KEY = 'nnc_camera_sync_min_age_minutes';
+export const CAMERA_SYNC_TYPES_KEY = 'nnc_camera_sync_types';
+export const CAMERA_SYNC_ALBUMS_KEY = 'nnc_camera_sync_albums';
+export const CAMERA_SYNC_FOLDER_TEMPLATE_KEY = 'nnc_camera_sync_folder_template';
+export const CAMERA_SYNC_NAME_PATTERN_KEY = 'nnc_camera_sync_name_pattern';
+export const CAMERA_SYNC_PRUNE_MAX_FILES_KEY = 'nnc_camera_sync_prune_max_files';
+export const CAMERA_SYNC_PRUNE_MAX_PERCENT_KEY = 'nnc_camera_sync_prune_max_percent';
+export const CAMERA_SYNC_PRUNE_TRASH_KEY = 'nnc_camera_sync_prune_trash';
+export const CAMERA_SYNC_CONCURRENCY_KEY = 'nnc_camera_sync_concurrency';
+export const CAMERA_SYNC_RATE_LIMIT_KEY = 'nnc_camera_sync_rate_limit_kbps';
+export const CAMERA_SYNC_WIFI_ONLY_KEY = 'nnc_camera_sync_wifi_only';
+export const CAMERA_SYNC_UNMETERED_ONLY_KEY = 'nnc_camera_sync_unmetered_only';
+export const CAMERA_SYNC_CHARGING_ONLY_KEY = 'nnc_camera_sync_charging_only';
+export const CAMERA_SYNC_MIN_BATTERY_KEY = 'nnc_camera_sync_min_battery';
+
+const SCAN_PAGE_SIZE = 150;
+const DELETE_BATCH_SIZE = 100;
+const LIST_PAGE_SIZE = 200;
+const STATUS_BATCH_SIZE = 60;
+const JOB_FILE = 'media-sync-job.json';
+const SCAN_FILE = 'media-sync-scan.json';
+const JOB_SAVE_INTERVAL_MS = 5000;
+const MAX_RECORDED_FAILURES = 200;
+// This many files failing back to back means the server or link is down, not a
+// bad file, so the run stops instead of burning retries on every remaining file.
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+export type SyncStage =
+  'idle' | 'planning' | 'uploading' | 'mirroring' | 'done' | 'error' | 'cancelled';
+export type SyncSource = 'camera' | 'folder';
+
+export type SyncFailure = {
+  name: string;
+  reason: string;
+  // False when the file could not even be read for planning; "Retry failed" cannot
+  // resend it, but the next full sync looks at it again.
+  retryable?: boolean;
+};
+
+export type SyncProgress = {
+  stage: SyncStage;
+  discovered: number;
+  planned: number;
+  skipped: number;
+  // Skipped files by reason, e.g. already on the server or left out by a filter.
+  skipReasons: Record<string, number>;
+  failed: number;
+  // Why each failed file failed; capped, so it may list fewer than `failed`.
+  failures: SyncFailure[];
+  uploaded: number;
+  plannedBytes: number;
+  uploadedBytes: number;
+  remoteDeleted: number;
+  remoteDeleteFailed: number;
+  // Why mirror prune was skipped this run, e.g. it would remove too much.
+  pruneBlocked: string;
+  // Set while the run waits for its network or power conditions.
+  pausedReason: string;
+  currentFileName: string;
+  currentFileBytes: number;
+  currentFileUploaded: number;
+  message: string;
+  error: string;
+  startedAt: number | null;
+  finishedAt: number | null;
+};
+
+/** A device album camera sync reads from, and its subfolder below the base path. */
+export type CameraAlbum = {
+  id: string;
+  title: string;
+  folder: string;
+};
+
+/** The saved Media Sync preferences of one profile. */
+export type MediaSyncSettings = {
+  rootId: string;
+  basePath: string;
+  source: SyncSource;
+  includeVideos: boolean;
+  folderUri: string;
+  mirror: boolean;
+  pruneLimits: PruneLimits;
+  // Move pruned files into the root's trash folder instead of deleting them.
+  pruneToTrash: boolean;
+  conflictPolicy: ConflictPolicy;
+  filters: SyncFilters;
+  // Empty means the whole library, filed directly under the base path.
+  albums: CameraAlbum[];
+  folderTemplate: string;
+  namePattern: string;
+  // Files uploaded at once, and a cap across all of them in KB/s (0 for none).
+  concurrency: number;
+  rateLimitKBps: number;
+  conditions: SyncConditions;
+};
+
+export type MediaSyncOptions = {
+  getToken: () => string | null;
+  chunkBytes?: number;
+  shouldStop?: () => boolean;
+  onProgress?: (progress: SyncProgress) => void;
+  // Background runs cannot show a permission prompt, so they only check it.
+  interactive?: boolean;
+  profileId?: string | null;
+  resumeFrom?: SyncJob | null;
+  // Ignore the camera watermark and re-check every asset in the library.
+  fullRescan?: boolean;
+};
+
+/** The assets one camera album scan inspected, against the watermark it started from. */
+export type SyncAlbumScan = {
+  key: string;
+  watermark: SyncWatermark | null;
+  ids: string[];
+};
+
+/**
+ * What is left of an upload stage that did not finish. Offsets are a hint only;
+ * a resumed run asks the server for the real ones before sending anything.
+ */
+export type SyncJob = {
+  profileId: string | null;
+  settings: MediaSyncSettings;
+  candidates: UploadCandidate[];
+  mirrorTargets: string[];
+  // Set when the job came from a reviewed preview: prune deletes nothing else.
+  approvedDeletions?: string[];
+  // The run finished; `candidates` are only the files that failed in it.
+  failedOnly?: boolean;
+  // Files whose status check failed before they were planned; resuming plans them
+  // with the sync's own conflict policy instead of reconciling them.
+  unplanned?: UploadCandidate[];
+  // Id of the camera scan that planned this job, so finishing it can still move the watermark.
+  assetScanId?: number;
+  progress: SyncProgress;
+  savedAt: number;
+};
+
+export type PreviewUpload = {
+  name: string;
+  target: string;
+  bytes: number;
+  resolution: 'new' | 'resume' | 'overwrite' | 'rename';
+};
+
+/**
+ * A dry run's report. `job` is the reviewed plan; running it with `resumeFrom`
+ * uploads exactly these files and deletes at most `deletions`.
+ */
+export type SyncPreview = {
+  uploads: PreviewUpload[];
+  skipped: Array<{ name: string; reason: string }>;
+  deletions: string[];
+  pruneBlocked: string;
+  job: SyncJob | null;
+};
+
+let syncInFlight = false;
+
+export function syncProgressBase(): SyncProgress {
+  return {
+    stage: 'idle',
+    discovered: 0,
+    planned: 0,
+    skipped: 0,
+    skipReasons: {},
+    failed: 0,
+    failures: [],
+    uploaded: 0,
+    plannedBytes: 0,
+    uploadedBytes: 0,
+    remoteDeleted: 0,
+    remoteDeleteFailed: 0,
+    pruneBlocked: '',
+    pausedReason: '',
+    currentFileName: '',
+    currentFileBytes: 0,
+    currentFileUploaded: 0,
+    message: '',
+    error: '',
+    startedAt: null,
+    finishedAt: null,
+  };
+}
+
+export function toErrorMessage(error: any, fallback: string) {
+  const message = error?.message;
+  if (typeof message === 'string' && message.trim()) {
+    return message.trim();
+  }
+  return fallback;
+}
+
+export function deviceName() {
+  return Platform.OS === 'android' ? Platform.constants.Model : Platform.OS;
+}
+
+export function isMediaSyncRunning() {
+  return syncInFlight;
+}
+
+export function syncJobFileCount(job: SyncJob) {
+  return job.candidates.length + (job.unplanned?.length || 0);
+}
+
+export function readSyncJob(): SyncJob | null {
+  try {
+    const file = new FsFile(Paths.document, JOB_FILE);
+    if (!file.exists) {
+      return null;
+    }
+    const parsed = JSON.parse(file.textSync());
+    if (!parsed || !Array.isArray(parsed.candidates) || !parsed.settings) {
+      return null;
+    }
+    return parsed as SyncJob;
+  } catch {
+    return null;
+  }
+}
+
+function writeSyncJob(job: SyncJob) {
+  try {
+    new FsFile(Paths.document, JOB_FILE).write(JSON.stringify(job));
+  } catch {
+    // Losing the snapshot only means the next run plans from scratch.
+  }
+}
+
+export function clearSyncJob() {
+  for (const name of [JOB_FILE, SCAN_FILE]) {
+    try {
+      const file = new FsFile(Paths.document, name);
+      if (file.exists) {
+        file.delete();
+      }
+    } catch {
+      // no-op
+    }
+  }
+}
+
+/**
+ * A camera scan as planning left it. It is written once, apart from the job, so
+ * the frequent job saves stay small; the planned assets a job no longer lists
+ * are the ones that finished uploading.
+ */
+type SavedAssetScan = {
+  id: number;
+  albums: SyncAlbumScan[];
+  results: AssetSyncResult[];
+  plannedIds: string[];
+};
+
+function readAssetScan(id: number): SavedAssetScan | null {
+  try {
+    const file = new FsFile(Paths.document, SCAN_FILE);
+    if (!file.exists) {
+      return null;
+    }
+    const parsed = JSON.parse(file.textSync());
+    if (
+      parsed?.id !== id ||
+      !Array.isArray(parsed.albums) ||
+      !Array.isArray(parsed.results) ||
+      !Array.isArray(parsed.plannedIds)
+    ) {
+      return null;
+    }
+    return parsed as SavedAssetScan;
+  } catch {
+    return null;
+  }
+}
+
+function writeAssetScan(scan: SavedAssetScan) {
+  try {
+    new FsFile(Paths.document, SCAN_FILE).write(JSON.stringify(scan));
+    return true;
+  } catch {
+    // Without it a resumed run only leaves the watermark where it was.
+    return false;
+  }
+}
+
+export async function loadMediaSyncSettings(profileId: string | null): Promise<MediaSyncSettings> {
+  const [
+    root,
+    path,
+    includeVideos,
+    source,
+    folderUri,
+    mirror,
+    conflictPolicy,
+    include,
+    exclude,
+    maxSizeMb,
+    minAgeMinutes,
+    types,
+    albums,
+    folderTemplate,
+    namePattern,
+    pruneMaxFiles,
+    pruneMaxPercent,
+    pruneToTrash,
+    concurrency,
+    rateLimitKBps,
+    wifiOnly,
+    unmeteredOnly,
+    chargingOnly,
+    minBatteryPercent,
+  ] = await Promise.all([
+    getProfileItem(CAMERA_SYNC_ROOT_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_PATH_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_INCLUDE_VIDEOS_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_SOURCE_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_FOLDER_URI_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_MIRROR_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_CONFLICT_POLICY_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_INCLUDE_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_EXCLUDE_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_MAX_SIZE_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_MIN_AGE_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_TYPES_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_ALBUMS_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_FOLDER_TEMPLATE_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_NAME_PATTERN_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_PRUNE_MAX_FILES_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_PRUNE_MAX_PERCENT_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_PRUNE_TRASH_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_CONCURRENCY_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_RATE_LIMIT_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_WIFI_ONLY_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_UNMETERED_ONLY_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_CHARGING_ONLY_KEY, profileId),
+    getProfileItem(CAMERA_SYNC_MIN_BATTERY_KEY, profileId),
+  ]);
+  return {
+    rootId: root || '',
+    basePath: path || '',
+    source: source === 'folder' ? 'folder' : 'camera',
+    includeVideos: includeVideos === '1',
+    folderUri: folderUri || '',
+    mirror: mirror === '1',
+    pruneLimits: {
+      maxFiles: parsePruneLimit(pruneMaxFiles, DEFAULT_PRUNE_LIMITS.maxFiles),
+      maxPercent: parsePruneLimit(pruneMaxPercent, DEFAULT_PRUNE_LIMITS.maxPercent),
+    },
+    pruneToTrash: pruneToTrash === '1',
+    conflictPolicy:
+      conflictPolicy === 'overwrite' || conflictPolicy === 'rename' ? conflictPolicy : 'skip',
+    filters: {
+      include: parsePatternList(include || ''),
+      exclude: exclude == null ? DEFAULT_SYNC_EXCLUDE : parsePatternList(exclude),
+      maxSizeMb: Math.max(0, Number(maxSizeMb) || 0),
+      minAgeMinutes: Math.max(0, Number(minAgeMinutes) || 0),
+      types: parseFileTypes(types),
+    },
+    albums: parseCameraAlbums(albums),
+    folderTemplate: folderTemplate || DEFAULT_FOLDER_TEMPLATE,
+    namePattern: namePattern || DEFAULT_NAME_PATTERN,
+    concurrency: SYNC_CONCURRENCY_LEVELS.includes(Number(concurrency))
+      ? Number(concurrency)
+      : DEFAULT_SYNC_CONCURRENCY,
+    rateLimitKBps: Math.max(0, Math.floor(Number(rateLimitKBps) || 0)),
+    conditions: {
+      wifiOnly: wifiOnly === '1',
+      unmeteredOnly: unmeteredOnly === '1',
+      chargingOnly: chargingOnly === '1',
+      minBatteryPercent: Math.min(100, Math.max(0, Math.floor(Number(minBatteryPercent) || 0))),
+    },
+  };
+}
+
+function parsePruneLimit(value: string | null, fallback: number) {
+  const parsed = Number(value);
+  return value == null || !Number.isFinite(parsed) ? fallback : Math.max(0, Math.floor(parsed));
+}
+
+function parseCameraAlbums(value: string | null) {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter((album) => album && typeof album.id === 'string')
+      .map((album): CameraAlbum => ({
+        id: album.id,
+        title: String(album.title || ''),
+        folder: normalizeUploadPath(album.folder || ''),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Runs one camera-library or folder sync end to end: plan against the server's
+ * upload status, send what is missing, then prune remote extras in mirror mode.
+ * Progress is reported as whole snapshots; the final snapshot is also returned.
+ * Only one sync runs at a time across the app, foreground or background.
+ * The upload stage is snapshotted to disk as it goes; pass that snapshot as
+ * `resumeFrom` to skip planning and continue where an interrupted run stopped.
+ */
+export function runMediaSync(settings: MediaSyncSettings, options: MediaSyncOptions) {
+  return syncOnce(settings, options, null);
+}
+
+/** Plans a sync and lists what it would upload, skip and prune, without writing anything. */
+export async function previewMediaSync(settings: MediaSyncSettings, options: MediaSyncOptions) {
+  const preview: SyncPreview = {
+    uploads: [],
+    skipped: [],
+    deletions: [],
+    pruneBlocked: '',
+    job: null,
+  };
+  const progress = await syncOnce(settings, { ...options, resumeFrom: null }, preview);
+  return { progress, preview: preview.job ? preview : null };
+}
+
+async function syncOnce(
+  settings: MediaSyncSettings,
+  {
+    getToken,
+    chunkBytes = MAX_CHUNK_BYTES,
+    shouldStop = () => false,
+    onProgress,
+    interactive = true,
+    profileId = null,
+    resumeFrom = null,
+    fullRescan = false,
+  }: MediaSyncOptions,
+  preview: SyncPreview | null
+): Promise<SyncProgress> {
+  let progress = syncProgressBase();
+  const report = (patch: Partial<SyncProgress>) => {
+    progress = { ...progress, ...patch };
+    onProgress?.(progress);
+    return progress;
+  };
+  const fail = (error: string) => report({ stage: 'error', error, finishedAt: Date.now() });
+
+  if (syncInFlight) {
+    return fail('Another sync is already running.');
+  }
+  if (!settings.rootId) {
+    return fail('Choose a destination root before syncing.');
+  }
+  if (settings.source === 'folder' && !settings.folderUri) {
+    return fail('Pick a local folder to sync first.');
+  }
+
+  const isFolder = settings.source === 'folder';
+  const mirror = isFolder && settings.mirror;
+  const uploadBasePath = normalizeUploadPath(settings.basePath);
+  const syncPolicy = effectiveConflictPolicy(settings.conflictPolicy, mirror);
+  // Jobs saved before prune limits existed carry no limits; use the defaults.
+  const pruneLimits = settings.pruneLimits || DEFAULT_PRUNE_LIMITS;
+  const markKeyFor = (album: CameraAlbum | null) =>
+    watermarkKey(profileId, settings.rootId, uploadBasePath, [
+      album ? `${album.id}>${album.folder}` : 'library',
+      settings.includeVideos ? 'all' : 'photos',
+      JSON.stringify({ ...settings.filters, minAgeMinutes: undefined }),
+      `${settings.folderTemplate}>${settings.namePattern}`,
+    ]);
+  const serverLayout = usesServerCameraLayout(settings.folderTemplate, settings.namePattern);
+  const session: UploadSession = { rootId: settings.rootId, uploadBasePath, getToken };
+  const api = createApiClient((path, options) => apiJson(path, { ...options, token: getToken() }));
+
+  const fetchRemoteFilesForMirror = async () => {
+    const remoteFiles = new Set<string>();
+    const queue: string[] = [uploadBasePath || ''];
+
+    while (queue.length && !shouldStop()) {
+      const currentPath = queue.pop() || '';
+      let offset = 0;
+      while (!shouldStop()) {
+        const listResult = await api.listDirectory({
+          root: settings.rootId,
+          path: currentPath,
+          limit: LIST_PAGE_SIZE,
+          offset,
+        });
+        if (!listResult.ok) {
+          throw new Error(
+            listResult.error?.message || 'Failed to list remote files for mirror mode'
+          );
+        }
+        const items = listResult.data.items;
+        for (const item of items) {
+          if (!item?.path || !item?.rootId) {
+            continue;
+          }
+          if (item.isDir) {
+            if (!isTrashPath(item.path)) {
+              queue.push(item.path);
+            }
+          } else {
+            remoteFiles.add(String(item.path));
+          }
+        }
+        if (items.length < LIST_PAGE_SIZE) {
+          break;
+        }
+        offset += items.length;
+      }
+    }
+
+    return remoteFiles;
+  };
+
+  let messageBeforePause = '';
+  const conditionGate = createConditionGate(
+    settings.conditions || DEFAULT_SYNC_CONDITIONS,
+    shouldStop,
+    (pausedReason) => {
+      if (pausedReason && !progress.pausedReason) {
+        messageBeforePause = progress.message;
+      }
+      report({
+        pausedReason,
+        message: pausedReason ? `Paused. ${pausedReason}` : messageBeforePause,
+      });
+    }
+  );
+
+  syncInFlight = true;
+  report({
+    stage: 'planning',
+    startedAt: Date.now(),
+    message: resumeFrom
+      ? 'Checking interrupted sync with the server...'
+      : isFolder
+        ? 'Scanning selected folder...'
+        : 'Checking media library access...',
+  });
+
+  try {
+    // A preview only reads, so it is not held back by the sync's conditions.
+    if (!preview) {
+      await conditionGate.wait();
+    }
+    const candidates: UploadCandidate[] = [];
+    const localMirrorTargets = new Set<string>();
+    let discovered = 0;
+    let plannedBytes = 0;
+    let skipped = 0;
+    let skipReasons: Record<string, number> = {};
+    let failed = 0;
+    let uploaded = 0;
+    let uploadedBytes = 0;
+    // Only a camera run whose scan is at hand may move the watermark; jobs saved
+    // without one, and retries of failed files, leave it alone.
+    const savedScan =
+      !isFolder && resumeFrom?.assetScanId && !resumeFrom.failedOnly
+        ? readAssetScan(resumeFrom.assetScanId)
+        : null;
+    const trackAssets = !isFolder && (!resumeFrom || Boolean(savedScan));
+    const assetResults = new Map<string, AssetSyncResult>();
+    const albumScans: SyncAlbumScan[] = [];
+    let assetScanId = savedScan?.id;
+    if (savedScan) {
+      const remaining = new Set(resumeFrom?.candidates.map((candidate) => candidate.assetId));
+      const planned = new Set(savedScan.plannedIds);
+      albumScans.push(...savedScan.albums);
+      savedScan.results.forEach((result) =>
+        assetResults.set(result.id, {
+          ...result,
+          confirmed: result.confirmed || (planned.has(result.id) && !remaining.has(result.id)),
+        })
+      );
+    }
+    // Called once planning is done; later saves of the job only refer to it.
+    const persistAssetScan = () => {
+      if (!trackAssets || assetScanId) {
+        return;
+      }
+      const id = Date.now();
+      const saved = writeAssetScan({
+        id,
+        albums: albumScans,
+        results: Array.from(assetResults.values()),
+        plannedIds: candidates.flatMap((candidate) =>
+          candidate.assetId ? [candidate.assetId] : []
+        ),
+      });
+      assetScanId = saved ? id : undefined;
+    };
+    const skip = (reason: string, name: string) => {
+      preview?.skipped.push({ name, reason });
+      skipped += 1;
+      skipReasons = { ...skipReasons, [reason]: (skipReasons[reason] || 0) + 1 };
+    };
+    let failures: SyncFailure[] = [];
+    const failFile = (name: string, reason: string, retryable = true) => {
+      failed += 1;
+      if (failures.length < MAX_RECORDED_FAILURES) {
+        failures = [...failures, { name, reason, retryable }];
+      }
+      report({ failed, failures });
+    };
+    const confirmAsset = (assetId?: string) => {
+      const result = assetId ? assetResults.get(assetId) : undefined;
+      if (result) {
+        result.confirmed = true;
+      }
+    };
+
+    // Files whose status check failed, kept so a retry can check them again: fresh
+    // ones are planned anew, ones from a saved job are reconciled like the rest of it.
+    const unplanned: UploadCandidate[] = [];
+    const recheck: UploadCandidate[] = [];
+    const applyStatusBatch = async (
+      batchCandidates: UploadCandidate[],
+      policy: ConflictPolicy = syncPolicy,
+      retryLater: UploadCandidate[] = unplanned
+    ) => {
+      if (!batchCandidates.length) {
+        return;
+      }
+      const outcomes = await planStatusBatch(session, batchCandidates, policy, shouldStop);
+      outcomes.forEach((outcome, index) => {
+        const original = batchCandidates[index];
+        if (outcome.type === 'ready') {
+          const planned = outcome.candidate;
+          plannedBytes += Math.max(0, planned.size - planned.initialOffset);
+          candidates.push(planned);
+          preview?.uploads.push({
+            name: original.displayName,
+            target:
+              planned.remoteTarget ||
+              joinUploadPath(
+                cameraBasePath(uploadBasePath, planned),
+                planned.monthBucket,
+                planned.displayName
+              ),
+            bytes: planned.size - planned.initialOffset,
+            resolution:
+              planned.displayName !== original.displayName ||
+              planned.remoteTarget !== original.remoteTarget
+                ? 'rename'
+                : planned.overwrite
+                  ? 'overwrite'
+                  : planned.initialOffset > 0
+                    ? 'resume'
+                    : 'new',
+          });
+        } else if (outcome.type === 'skipped') {
+          confirmAsset(original.assetId);
+          skip(SKIP_REASON_EXISTS, original.displayName);
+        } else {
+          retryLater.push(original);
+          failFile(original.displayName, outcome.error || 'Failed to check upload status.');
+        }
+      });
+    };
+
+    if (resumeFrom) {
+      // Retrying failed files is a fresh, small run; an interrupted one carries on counting.
+      if (!resumeFrom.failedOnly) {
+        discovered = resumeFrom.progress.discovered;
+        skipped = resumeFrom.progress.skipped;
+        skipReasons = resumeFrom.progress.skipReasons || {};
+        failed = resumeFrom.progress.failed;
+        failures = resumeFrom.progress.failures || [];
+        uploaded = resumeFrom.progress.uploaded;
+        uploadedBytes = resumeFrom.progress.uploadedBytes;
+      }
+      resumeFrom.mirrorTargets.forEach((target) => localMirrorTargets.add(target));
+      // Renamed targets were settled when the job was planned, so a target that now
+      // exists was finished by the interrupted run rather than being a new conflict.
+      const reconcilePolicy: ConflictPolicy = syncPolicy === 'overwrite' ? 'overwrite' : 'skip';
+      for (
+        let index = 0;
+        index < resumeFrom.candidates.length && !shouldStop();
+        index += STATUS_BATCH_SIZE
+      ) {
+        await applyStatusBatch(
+          resumeFrom.candidates.slice(index, index + STATUS_BATCH_SIZE),
+          reconcilePolicy,
+          recheck
+        );
+      }
+      const replan = resumeFrom.unplanned || [];
+      for (let index = 0; index < replan.length && !shouldStop(); index += STATUS_BATCH_SIZE) {
+        await applyStatusBatch(replan.slice(index, index + STATUS_BATCH_SIZE));
+      }
+    } else if (!isFolder) {
+      const permission = interactive
+        ? await MediaLibrary.requestPermissionsAsync()
+        : await MediaLibrary.getPermissionsAsync();
+      if (!permission.granted) {
+        return fail('Media library permission is required for camera sync.');
+      }
+
+      const mediaTypes: MediaLibrary.MediaTypeValue[] = settings.includeVideos
+        ? [MediaLibrary.MediaType.photo, MediaLibrary.MediaType.video]
+        : [MediaLibrary.MediaType.photo];
+      const pendingCandidates: UploadCandidate[] = [];
+      const albums: Array<CameraAlbum | null> = settings.albums.length ? settings.albums : [null];
+
+      for (const album of albums) {
+        if (shouldStop()) {
+          break;
+        }
+        const key = markKeyFor(album);
+        const scan = {
+          key,
+          watermark: fullRescan ? null : readWatermark(key),
+          ids: [] as string[],
+        };
+        albumScans.push(scan);
+        let pageCursor: string | null = null;
+        let hasNext = true;
+
+        while (hasNext && !shouldStop()) {
+          const page = await MediaLibrary.getAssetsAsync({
+            first: SCAN_PAGE_SIZE,
+            after: pageCursor || undefined,
+            album: album?.id,
+            // Newest changes first, so paging can stop at the watermark.
+            sortBy: [[MediaLibrary.SortBy.modificationTime, false]],
+            mediaType: mediaTypes,
+          });
+
+          hasNext = page.hasNextPage;
+          pageCursor = page.endCursor;
+
+          for (const asset of page.assets) {
+            if (shouldStop()) {
+              break;
+            }
+            const modifiedAt = Number(asset.modificationTime || 0);
+            if (scan.watermark && modifiedAt < scan.watermark.time) {
+              hasNext = false;
+              break;
+            }
+            if (isAssetConfirmed(scan.watermark, asset.id, modifiedAt)) {
+              continue;
+            }
+            scan.ids.push(asset.id);
+            // An asset in two selected albums is only uploaded into the first one.
+            if (assetResults.has(asset.id)) {
+              continue;
+            }
+            assetResults.set(asset.id, { id: asset.id, modifiedAt, confirmed: false });
+            discovered += 1;
+            if (discovered % 10 === 0) {
+              report({
+                stage: 'planning',
+                discovered,
+                planned: candidates.length,
+                skipped,
+                skipReasons,
+                failed,
+                plannedBytes,
+                message: `Planning uploads (${discovered} inspected)...`,
+              });
+            }
+
+            let assetInfo: MediaLibrary.AssetInfo;
+            try {
+              assetInfo = await MediaLibrary.getAssetInfoAsync(asset.id);
+            } catch (error: any) {
+              failFile(
+                asset.filename,
+                toErrorMessage(error, 'Could not read photo details.'),
+                false
+              );
+              continue;
+            }
+
+            const localUri = assetInfo.localUri || assetInfo.uri || asset.uri;
+            if (!localUri) {
+              failFile(asset.filename, 'The photo is not available on this device.', false);
+              continue;
+            }
+
+            const localFile = new FsFile(localUri);
+            const size = Number(localFile.size || 0);
+            if (!Number.isFinite(size) || size < 0) {
+              failFile(asset.filename, 'Could not read the file size.', false);
+              continue;
+            }
+
+            const displayName = sanitizeFileName(assetInfo.filename || asset.filename, asset.id);
+            const skipReason = filterSkipReason(
+              {
+                path: displayName,
+                size,
+                modifiedAt: modifiedAt ? normalizeTimestamp(modifiedAt) : null,
+              },
+              settings.filters
+            );
+            if (skipReason) {
+              // Too-new assets stay unconfirmed so the next run picks them up.
+              if (skipReason !== SKIP_REASON_TOO_NEW) {
+                confirmAsset(asset.id);
+              }
+              skip(skipReason, displayName);
+              continue;
+            }
+
+            const createdAt = normalizeTimestamp(assetInfo.creationTime || asset.creationTime);
+            const naming = {
+              capturedAt: createdAt,
+              originalName: displayName,
+              album: album?.title || '',
+              device: deviceName(),
+            };
+            const fileName = serverLayout
+              ? displayName
+              : renderCameraFileName(settings.namePattern, naming);
+            pendingCandidates.push({
+              kind: 'camera',
+              displayName: fileName,
+              localUri,
+              size,
+              initialOffset: 0,
+              // A custom layout is resolved here and sent as an explicit target.
+              remoteTarget: serverLayout
+                ? ''
+                : joinUploadPath(
+                    uploadBasePath,
+                    album?.folder || '',
+                    renderCameraFolder(settings.folderTemplate, naming),
+                    fileName
+                  ),
+              monthBucket: monthBucketFromTime(createdAt),
+              capturedAtIso: new Date(createdAt).toISOString(),
+              overwrite: false,
+              assetId: asset.id,
+              cameraFolder: album?.folder || '',
+            });
+            if (pendingCandidates.length >= STATUS_BATCH_SIZE) {
+              await applyStatusBatch(pendingCandidates.splice(0, pendingCandidates.length));
+            }
+          }
+        }
+      }
+      if (!shouldStop() && pendingCandidates.length) {
+        await applyStatusBatch(pendingCandidates.splice(0, pendingCandidates.length));
+      }
+    } else {
+      const scanned = await collectLocalFolderFiles(settings.folderUri);
+      discovered = scanned.discovered;
+      failed += scanned.failed;
+
+      const includedFiles = scanned.files.filter((file) => {
+        const skipReason = filterSkipReason(
+          { path: file.relativePath, size: file.size, modifiedAt: file.modifiedAt },
+          settings.filters
+        );
+        if (!skipReason) {
+          return true;
+        }
+        // Filtered files are left alone remotely too, so mirror mode never prunes them.
+        localMirrorTargets.add(joinUploadPath(uploadBasePath, file.relativePath));
+        skip(skipReason, file.relativePath);
+        return false;
+      });
+      const folderCandidates = buildFolderCandidates({ files: includedFiles, uploadBasePath });
+      const pendingCandidates: UploadCandidate[] = [];
+
+      for (let index = 0; index < folderCandidates.length && !shouldStop(); index += 1) {
+        const candidate = folderCandidates[index];
+        localMirrorTargets.add(candidate.remoteTarget);
+        pendingCandidates.push(candidate);
+
+        if ((index + 1) % 10 === 0) {
+          report({
+            stage: 'planning',
+            discovered,
+            planned: candidates.length,
+            skipped,
+            skipReasons,
+            failed,
+            plannedBytes,
+            message: `Planning folder sync (${index + 1}/${folderCandidates.length})...`,
+          });
+        }
+        if (pendingCandidates.length >= STATUS_BATCH_SIZE) {
+          await applyStatusBatch(pendingCandidates.splice(0, pendingCandidates.length));
+        }
+      }
+      if (!shouldStop() && pendingCandidates.length) {
+        await applyStatusBatch(pendingCandidates.splice(0, pendingCandidates.length));
+      }
+    }
+
+    if (shouldStop()) {
+      return report({ stage: 'cancelled', message: 'Sync cancelled.', finishedAt: Date.now() });
+    }
+
+    if (preview) {
+      if (mirror) {
+        report({ message: 'Listing remote files to find what mirror sync would prune...' });
+        const remoteFiles = await fetchRemoteFilesForMirror();
+        preview.deletions = Array.from(remoteFiles).filter(
+          (remotePath) => !localMirrorTargets.has(remotePath)
+        );
+        preview.pruneBlocked =
+          pruneLimitError(preview.deletions.length, remoteFiles.size, pruneLimits) || '';
+      }
+      if (shouldStop()) {
+        return report({ stage: 'cancelled', message: 'Sync cancelled.', finishedAt: Date.now() });
+      }
+      report({
+        stage: 'done',
+        discovered,
+        planned: candidates.length,
+        skipped,
+        skipReasons,
+        failed,
+        plannedBytes,
+        message: 'Preview ready. Nothing has been uploaded or deleted yet.',
+        finishedAt: Date.now(),
+      });
+      // Confirming runs this job as a resume, which reads the scan back by id.
+      persistAssetScan();
+      preview.job = {
+        profileId,
+        settings,
+        candidates,
+        mirrorTargets: Array.from(localMirrorTargets),
+        approvedDeletions: preview.deletions,
+        assetScanId,
+        progress,
+        savedAt: Date.now(),
+      };
+      return progress;
+    }
+
+    // Indexes into `candidates` that are fully sent, and how far the rest got.
+    const finished = new Set<number>();
+    const offsets = new Map<number, number>();
+    let lastSavedAt = 0;
+    const saveJob = (failedOnly = false) => {
+      const remaining = candidates.flatMap((candidate, index) => {
+        if (finished.has(index)) {
+          return [];
+        }
+        const offset = offsets.get(index) || 0;
+        return [
+          offset > candidate.initialOffset ? { ...candidate, initialOffset: offset } : candidate,
+        ];
+      });
+      lastSavedAt = Date.now();
+      writeSyncJob({
+        profileId,
+        settings,
+        candidates: [...recheck, ...remaining],
+        unplanned,
+        mirrorTargets: mirror ? Array.from(localMirrorTargets) : [],
+        approvedDeletions: resumeFrom?.approvedDeletions,
+        failedOnly,
+        assetScanId: failedOnly ? undefined : assetScanId,
+        progress,
+        savedAt: lastSavedAt,
+      });
+    };
+    // Rebuilding the job walks every candidate, so doing it per chunk or per
+    // finished file would grow with the size of the run.
+    const saveJobThrottled = () => {
+      if (Date.now() - lastSavedAt >= JOB_SAVE_INTERVAL_MS) {
+        saveJob();
+      }
+    };
+
+    report({
+      stage: 'uploading',
+      discovered,
+      planned: uploaded + candidates.length,
+      skipped,
+      skipReasons,
+      failed,
+      plannedBytes: uploadedBytes + plannedBytes,
+      uploadedBytes,
+      uploaded,
+      currentFileName: '',
+      currentFileBytes: 0,
+      currentFileUploaded: 0,
+      message: candidates.length
+        ? `Uploading ${candidates.length} file(s)...`
+        : 'No new files to upload.',
+    });
+
+    if (candidates.length || recheck.length || unplanned.length) {
+      persistAssetScan();
+      saveJob();
+    } else {
+      clearSyncJob();
+    }
+
+    // Jobs saved before these settings existed run one file at a time, uncapped.
+    const concurrency = Math.max(1, settings.concurrency || 1);
+    const rateLimit = Math.max(0, settings.rateLimitKBps || 0) * 1024;
+    const rateLimiter = rateLimit ? createRateLimiter(rateLimit) : undefined;
+    const chunkSizer = createChunkSizer(
+      rateLimit ? Math.min(chunkBytes, chunkLimitForRate(rateLimit)) : chunkBytes
+    );
+    // Set when failures look systemic; stops the other workers and fails the run.
+    let uploadError: unknown = null;
+    let consecutiveFailures = 0;
+    const stopUploads = () => uploadError !== null || shouldStop();
+    const failedIndexes = new Set<number>();
+    let nextIndex = 0;
+    // Files interrupted by a change of network or power, sent again once allowed.
+    const requeued: number[] = [];
+    const takeNext = () => {
+      if (requeued.length) {
+        return requeued.shift() as number;
+      }
+      return nextIndex < candidates.length ? nextIndex++ : null;
+    };
+
+    const uploadWorker = async () => {
+      for (let index = takeNext(); index !== null && !stopUploads(); index = takeNext()) {
+        const saved = candidates[index];
+        const offset = offsets.get(index) || 0;
+        const candidate =
+          offset > saved.initialOffset ? { ...saved, initialOffset: offset } : saved;
+        report({
+          stage: 'uploading',
+          currentFileName: candidate.displayName,
+          currentFileBytes: candidate.size,
+          currentFileUploaded: candidate.initialOffset,
+        });
+        try {
+          const complete = await uploadCandidate(session, candidate, {
+            chunkSizer,
+            rateLimiter,
+            beforeChunk: conditionGate.wait,
+            shouldStop: stopUploads,
+            onProgress: ({ offset, advanced }) => {
+              offsets.set(index, offset);
+              uploadedBytes += advanced;
+              report({
+                uploadedBytes,
+                currentFileName: candidate.displayName,
+                currentFileBytes: candidate.size,
+                currentFileUploaded: offset,
+              });
+              saveJobThrottled();
+            },
+          });
+          if (complete) {
+            finished.add(index);
+            failedIndexes.delete(index);
+            consecutiveFailures = 0;
+            confirmAsset(candidate.assetId);
+            uploaded += 1;
+            report({ uploaded });
+            saveJobThrottled();
+          }
+        } catch (error: any) {
+          // Losing Wi-Fi or power mid-chunk pauses the file instead of failing it.
+          if (!stopUploads() && (await conditionGate.check(true))) {
+            await conditionGate.wait();
+            requeued.push(index);
+            continue;
+          }
+          const reason = toErrorMessage(error, 'Upload failed.');
+          failedIndexes.add(index);
+          failFile(candidate.displayName, reason);
+          consecutiveFailures += 1;
+          if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+            uploadError =
+              uploadError ||
+              new Error(
+                `Sync stopped after ${consecutiveFailures} files failed in a row: ${reason}`
+              );
+          }
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, candidates.length) }, () => uploadWorker())
+    );
+    // Saves during the run are throttled, so record where every file ended up.
+    if (candidates.length || recheck.length || unplanned.length) {
+      saveJob();
+    }
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    if (!shouldStop()) {
+      // Everything not finished by now failed; keep just those for "Retry failed",
+      // along with the files whose status check failed during planning.
+      if (failedIndexes.size || recheck.length || unplanned.length) {
+        saveJob(true);
+      } else {
+        clearSyncJob();
+      }
+      if (trackAssets) {
+        for (const scan of albumScans) {
+          const results = scan.ids.flatMap((id) => assetResults.get(id) || []);
+          writeWatermark(scan.key, advanceWatermark(scan.watermark, results));
+        }
+      }
+    }
+
+    let remoteDeleted = 0;
+    let remoteDeleteFailed = 0;
+
+    if (!shouldStop() && mirror) {
+      report({
+        stage: 'mirroring',
+        message: 'Mirror sync (prune): pruning remote files not in local folder...',
+      });
+
+      const remoteFiles = await fetchRemoteFilesForMirror();
+      const approved = resumeFrom?.approvedDeletions;
+      const toDelete = (approved || Array.from(remoteFiles)).filter(
+        (remotePath) => remoteFiles.has(remotePath) && !localMirrorTargets.has(remotePath)
+      );
+      // A wrong or emptied local folder would otherwise wipe the remote copy.
+      const blocked = pruneLimitError(toDelete.length, remoteFiles.size, pruneLimits);
+      if (blocked) {
+        report({ pruneBlocked: blocked });
+      }
+      const runPath = trashRunPath();
+      for (
+        let index = 0;
+        !blocked && index < toDelete.length && !shouldStop();
+        index += DELETE_BATCH_SIZE
+      ) {
+        const batch = toDelete.slice(index, index + DELETE_BATCH_SIZE);
+        if (settings.pruneToTrash) {
+          const moveResult = await moveToTrash(api, settings.rootId, batch, runPath);
+          remoteDeleted += moveResult.moved;
+          remoteDeleteFailed += moveResult.failed;
+        } else {
+          const deleteResult = await api.deleteEntries({ root: settings.rootId, paths: batch });
+          if (deleteResult.ok) {
+            const deletedCount = deleteResult.data.filter((item) => item.ok).length;
+            remoteDeleted += deletedCount;
+            remoteDeleteFailed += batch.length - deletedCount;
+          } else {
+            remoteDeleteFailed += batch.length;
+          }
+        }
+        report({
+          remoteDeleted,
+          remoteDeleteFailed,
+          message: `Mirror sync (prune): pruning remote files (${Math.min(index + DELETE_BATCH_SIZE, toDelete.length)}/${toDelete.length})...`,
+        });
+      }
+    }
+
+    if (shouldStop()) {
+      return report({
+        stage: 'cancelled',
+        uploaded,
+        uploadedBytes,
+        remoteDeleted,
+        remoteDeleteFailed,
+        message: 'Sync cancelled.',
+        finishedAt: Date.now(),
+      });
+    }
+    const mirrorSummary = !mirror
+      ? ''
+      : progress.pruneBlocked
+        ? ` ${progress.pruneBlocked}`
+        : settings.pruneToTrash
+          ? ` Mirror sync (prune) moved ${remoteDeleted} file(s) to the trash.`
+          : ` Mirror sync (prune) removed ${remoteDeleted} file(s).`;
+    return report({
+      stage: 'done',
+      uploaded,
+      uploadedBytes,
+      remoteDeleted,
+      remoteDeleteFailed,
+      currentFileName: '',
+      currentFileBytes: 0,
+      currentFileUploaded: 0,
+      message:
+        `Sync complete. Uploaded ${uploaded}/${progress.planned} file(s).` +
+        (failed ? ` ${failed} failed.` : '') +
+        mirrorSummary,
+      finishedAt: Date.now(),
+    });
+  } catch (error: any) {
+    return fail(toErrorMessage(error, 'Sync failed.'));
+  } finally {
+    syncInFlight = false;
+  }
+}
@@ -0,0 +1,126 @@
+import { ApiResult, apiJson, buildUrl } from '../apiClient';
+import { createApiClient, UploadStatusItem } from '../endpoints';
+import {
+  buildStatusPayload,
+  cameraBasePath,
+  normalizeBatchStatusItems,
+  UploadCandidate,
+  usesCameraParams,
+} from './plan';
+
+const CHUNK_TIMEOUT_MS = 60000;
+
+/** Where uploads go and which session sends them; the token is read per request. */
+export type UploadSession = {
+  rootId: string;
+  uploadBasePath: string;
+  getToken: () => string | null;
+};
+
+export function makeStatusUrl(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  overwrite: boolean
+) {
+  if (usesCameraParams(candidate)) {
+    return buildUrl('/api/upload/status', {
+      root: session.rootId,
+      path: cameraBasePath(session.uploadBasePath, candidate),
+      file: candidate.displayName,
+      size: candidate.size,
+      overwrite: overwrite ? 1 : 0,
+      camera: 1,
+      cameraMonth: candidate.monthBucket,
+      capturedAt: candidate.capturedAtIso,
+    });
+  }
+  return buildUrl('/api/upload/status', {
+    root: session.rootId,
+    target: candidate.remoteTarget,
+    size: candidate.size,
+    overwrite: overwrite ? 1 : 0,
+  });
+}
+
+export function makeChunkUrl(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  offset: number,
+  overwrite: boolean
+) {
+  if (usesCameraParams(candidate)) {
+    return buildUrl('/api/upload/chunk', {
+      root: session.rootId,
+      path: cameraBasePath(session.uploadBasePath, candidate),
+      file: candidate.displayName,
+      size: candidate.size,
+      offset,
+      overwrite: overwrite ? 1 : 0,
+      camera: 1,
+      cameraMonth: candidate.monthBucket,
+      capturedAt: candidate.capturedAtIso,
+    });
+  }
+  return buildUrl('/api/upload/chunk', {
+    root: session.rootId,
+    target: candidate.remoteTarget,
+    size: candidate.size,
+    offset,
+    overwrite: overwrite ? 1 : 0,
+  });
+}
+
+export function fetchUploadStatus(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  overwrite: boolean,
+  signal?: AbortSignal
+): Promise<ApiResult> {
+  return apiJson(makeStatusUrl(session, candidate, overwrite), {
+    token: session.getToken(),
+    signal,
+  });
+}
+
+export async function fetchUploadStatusBatch(
+  session: UploadSession,
+  candidates: UploadCandidate[],
+  overwrite: boolean,
+  signal?: AbortSignal
+): Promise<Array<UploadStatusItem | null>> {
+  if (!candidates.length) {
+    return [];
+  }
+  const api = createApiClient((path, options) =>
+    apiJson(path, { ...options, token: session.getToken(), signal })
+  );
+  const batchResult = await api.uploadStatusBatch({
+    root: session.rootId,
+    items: candidates.map((candidate) =>
+      buildStatusPayload({ uploadBasePath: session.uploadBasePath, candidate, overwrite })
+    ),
+  });
+  if (!batchResult.ok) {
+    throw new Error(batchResult.error?.message || 'Failed to check upload status');
+  }
+  return normalizeBatchStatusItems(batchResult.data, candidates.length);
+}
+
+export function postUploadChunk(
+  session: UploadSession,
+  candidate: UploadCandidate,
+  offset: number,
+  bytes: Uint8Array,
+  signal?: AbortSignal
+): Promise<ApiResult> {
+  // Chunk appends are not idempotent at a fixed offset, so they are never retried blindly.
+  return apiJson(makeChunkUrl(session, candidate, offset, candidate.overwrite), {
+    method: 'POST',
+    token: session.getToken(),
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+    retries: 0,
+    timeoutMs: CHUNK_TIMEOUT_MS,
+    signal,
+  });
+}
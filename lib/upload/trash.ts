@@ -0,0 +1,192 @@
+import { ApiClient, Entry } from '../endpoints';
+import { joinUploadPath } from './plan';
+
+export const TRASH_FOLDER = '.nnc-trash';
+
+const LIST_PAGE_SIZE = 200;
+const MOVE_BATCH_SIZE = 100;
+
+/** How much one mirror prune may remove. Zero disables a limit. */
+export type PruneLimits = {
+  maxFiles: number;
+  maxPercent: number;
+};
+
+export const DEFAULT_PRUNE_LIMITS: PruneLimits = {
+  maxFiles: 200,
+  maxPercent: 25,
+};
+
+/** A prune's worth of files moved aside, named after when it ran. */
+export type TrashRun = {
+  path: string;
+  name: string;
+  mtime: number;
+};
+
+export type TrashedFile = {
+  path: string;
+  // Where the file lived before it was pruned.
+  originalPath: string;
+  size: number;
+};
+
+export type TrashMoveResult = {
+  moved: number;
+  failed: number;
+};
+
+export function isTrashPath(path: string) {
+  return path === TRASH_FOLDER || path.startsWith(`${TRASH_FOLDER}/`);
+}
+
+/** Returns why a prune must not run, or null when it is within the limits. */
+export function pruneLimitError(count: number, remoteTotal: number, limits: PruneLimits) {
+  if (limits.maxFiles > 0 && count > limits.maxFiles) {
+    return `Mirror prune stopped: it would remove ${count} file(s), over the limit of ${limits.maxFiles}.`;
+  }
+  const percent = remoteTotal ? (count / remoteTotal) * 100 : 0;
+  if (limits.maxPercent > 0 && percent > limits.maxPercent) {
+    return `Mirror prune stopped: it would remove ${Math.round(percent)}% of remote files, over the limit of ${limits.maxPercent}%.`;
+  }
+  return null;
+}
+
+export function trashRunPath(now = Date.now()) {
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp =
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return joinUploadPath(TRASH_FOLDER, stamp);
+}
+
+function parentOf(path: string) {
+  const lastSlash = path.lastIndexOf('/');
+  return lastSlash > 0 ? path.slice(0, lastSlash) : '';
+}
+
+// mkdir is not recursive on every server version, so each level is created in
+// turn; a failure usually means the folder is already there.
+async function ensureFolder(api: ApiClient, root: string, path: string, created: Set<string>) {
+  const segments = path.split('/').filter(Boolean);
+  for (let index = 1; index <= segments.length; index += 1) {
+    const current = segments.slice(0, index).join('/');
+    if (!created.has(current)) {
+      created.add(current);
+      await api.createFolder({ root, path: current });
+    }
+  }
+}
+
+// `/api/move` drops everything into one folder, so paths are moved per parent
+// to keep the tree shape. `targetFor` maps a parent folder to its destination.
+async function moveByParent(
+  api: ApiClient,
+  root: string,
+  paths: string[],
+  targetFor: (parent: string) => string
+): Promise<TrashMoveResult> {
+  const groups = new Map<string, string[]>();
+  for (const path of paths) {
+    const parent = parentOf(path);
+    groups.set(parent, [...(groups.get(parent) || []), path]);
+  }
+  const created = new Set<string>();
+  let moved = 0;
+  let failed = 0;
+  for (const [parent, group] of groups) {
+    const targetPath = targetFor(parent);
+    await ensureFolder(api, root, targetPath, created);
+    for (let index = 0; index < group.length; index += MOVE_BATCH_SIZE) {
+      const batch = group.slice(index, index + MOVE_BATCH_SIZE);
+      const result = await api.moveEntries({ root, paths: batch, targetRoot: root, targetPath });
+      const movedCount = result.ok ? result.data.filter((item) => item.ok).length : 0;
+      moved += movedCount;
+      failed += batch.length - movedCount;
+    }
+  }
+  return { moved, failed };
+}
+
+/** Moves pruned files into `runPath`, keeping their folders below it. */
+export function moveToTrash(api: ApiClient, root: string, paths: string[], runPath: string) {
+  return moveByParent(api, root, paths, (parent) => joinUploadPath(runPath, parent));
+}
+
+async function listAll(api: ApiClient, root: string, path: string) {
+  const entries: Entry[] = [];
+  let offset = 0;
+  while (true) {
+    const result = await api.listDirectory({ root, path, limit: LIST_PAGE_SIZE, offset });
+    if (!result.ok) {
+      if (result.status === 404) {
+        return entries;
+      }
+      throw new Error(result.error?.message || 'Failed to list the sync trash.');
+    }
+    entries.push(...result.data.items);
+    if (result.data.items.length < LIST_PAGE_SIZE) {
+      return entries;
+    }
+    offset += result.data.items.length;
+  }
+}
+
+/** Lists trash runs, newest first. */
+export async function listTrashRuns(api: ApiClient, root: string): Promise<TrashRun[]> {
+  const entries = await listAll(api, root, TRASH_FOLDER);
+  return entries
+    .filter((entry) => entry.isDir)
+    .map((entry) => ({ path: entry.path, name: entry.name, mtime: entry.mtime }))
+    .sort((a, b) => b.name.localeCompare(a.name));
+}
+
+export async function listTrashRunFiles(
+  api: ApiClient,
+  root: string,
+  runPath: string
+): Promise<TrashedFile[]> {
+  const files: TrashedFile[] = [];
+  const queue = [runPath];
+  while (queue.length) {
+    const current = queue.pop() || '';
+    for (const entry of await listAll(api, root, current)) {
+      if (entry.isDir) {
+        queue.push(entry.path);
+      } else {
+        files.push({
+          path: entry.path,
+          originalPath: entry.path.slice(runPath.length + 1),
+          size: entry.size,
+        });
+      }
+    }
+  }
+  return files.sort((a, b) => a.originalPath.localeCompare(b.originalPath));
+}
+
+/** Moves trashed files back where they were pruned from. */
+export function restoreTrashedFiles(
+  api: ApiClient,
+  root: string,
+  runPath: string,
+  files: TrashedFile[]
+) {
+  return moveByParent(
+    api,
+    root,
+    files.map((file) => file.path),
+    (parent) => parent.slice(runPath.length + 1)
+  );
+}
+
+export async function deleteTrashRun(api: ApiClient, root: string, runPath: string) {
+  const result = await api.deleteEntries({ root, paths: [runPath] });
+  if (!result.ok || !result.data.every((item) => item.ok)) {
+    throw new Error(
+      (result.ok ? result.data[0]?.error?.message : result.error?.message) ||
+        'Failed to empty this trash folder.'
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { File as FsFile, Paths } from 'expo-file-system';
+
+const WATERMARKS_FILE = 'media-sync-watermarks.json';
+
+/**
+ * How far a camera destination is known to be in sync. Every asset modified
+ * before `time` is confirmed; at or after it, only the IDs in `confirmed` are,
+ * each stored with the modification time it was confirmed at.
+ */
+export type SyncWatermark = {
+  time: number;
+  confirmed: Record<string, number>;
+};
+
+export type AssetSyncResult = {
+  id: string;
+  modifiedAt: number;
+  confirmed: boolean;
+};
+
+function readAll(): Record<string, SyncWatermark> {
+  try {
+    const file = new FsFile(Paths.document, WATERMARKS_FILE);
+    if (!file.exists) {
+      return {};
+    }
+    const parsed = JSON.parse(file.textSync());
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function watermarkKey(
+  profileId: string | null,
+  rootId: string,
+  uploadBasePath: string,
+  scope: string[]
+) {
+  // Media and file filters are part of the key: widening them must not skip
+  // assets an earlier, narrower run never looked at.
+  return [profileId || '', rootId, uploadBasePath, ...scope].join('|');
+}
+
+export function readWatermark(key: string): SyncWatermark | null {
+  const watermark = readAll()[key];
+  if (!watermark || !Number.isFinite(watermark.time) || !watermark.confirmed) {
+    return null;
+  }
+  return watermark;
+}
+
+export function writeWatermark(key: string, watermark: SyncWatermark) {
+  try {
+    const all = readAll();
+    all[key] = watermark;
+    new FsFile(Paths.document, WATERMARKS_FILE).write(JSON.stringify(all));
+  } catch {
+    // A missing watermark only makes the next run slower.
+  }
+}
+
+export function isAssetConfirmed(watermark: SyncWatermark | null, id: string, modifiedAt: number) {
+  return !!watermark && watermark.confirmed[id] === modifiedAt;
+}
+
+/**
+ * Moves the watermark up to the newest inspected asset, but never past the
+ * oldest one that is still unconfirmed, so a failed upload is retried next run.
+ */
+export function advanceWatermark(
+  previous: SyncWatermark | null,
+  results: AssetSyncResult[]
+): SyncWatermark {
+  let newest = previous?.time || 0;
+  let oldestPending = Infinity;
+  for (const result of results) {
+    newest = Math.max(newest, result.modifiedAt);
+    if (!result.confirmed) {
+      oldestPending = Math.min(oldestPending, result.modifiedAt);
+    }
+  }
+  const time = Number.isFinite(oldestPending) ? oldestPending : newest;
+
+  const confirmed: Record<string, number> = {};
+  for (const [id, modifiedAt] of Object.entries(previous?.confirmed || {})) {
+    if (modifiedAt >= time) {
+      confirmed[id] = modifiedAt;
+    }
+  }
+  for (const result of results) {
+    if (!result.confirmed) {
+      delete confirmed[result.id];
+    } else if (result.modifiedAt >= time) {
+      confirmed[result.id] = result.modifiedAt;
+    }
+  }
+  return { time, confirmed };
+}
@@ -0,0 +1,161 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { File } from 'expo-file-system';
+import { useAuth } from './auth';
+import { useServer } from './server';
+import {
+  clampChunkBytes,
+  ConflictPolicy,
+  createUploadQueue,
+  UploadQueue,
+  UploadTask,
+} from './upload';
+
+export type UploadConflictPolicy = ConflictPolicy;
+export type UploadJob = UploadTask;
+
+export type UploadSource = {
+  uri: string;
+  name: string;
+  size?: number | null;
+};
+
+type UploadsContextValue = {
+  jobs: UploadJob[];
+  enqueue: (
+    files: UploadSource[],
+    destination: { rootId: string; path: string },
+    policy: UploadConflictPolicy
+  ) => number;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  clearFinished: (rootId: string, dir: string) => void;
+};
+
+const UploadsContext = createContext<UploadsContextValue | null>(null);
+
+function safeFileName(name: string) {
+  return name.trim().replace(/[\\/]+/g, '_') || 'upload';
+}
+
+function isFinished(job: UploadJob) {
+  return job.status !== 'queued' && job.status !== 'uploading';
+}
+
+// Picked documents are cache copies, so they can go once nothing will retry them.
+function discardLocal(job: UploadJob) {
+  try {
+    const file = new File(job.candidate.localUri);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch {
+    // no-op
+  }
+}
+
+export function UploadsProvider({ children }: { children: React.ReactNode }) {
+  const { token, isAuthenticated, activeProfile } = useAuth();
+  const { info } = useServer();
+  const profileId = activeProfile?.id || null;
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const tokenRef = useRef(token);
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  const profileIdRef = useRef(profileId);
+  const chunkBytesRef = useRef(clampChunkBytes(null));
+  const queueRef = useRef<UploadQueue | null>(null);
+
+  tokenRef.current = token;
+  isAuthenticatedRef.current = isAuthenticated;
+  profileIdRef.current = profileId;
+  chunkBytesRef.current = clampChunkBytes(info?.capabilities?.upload?.chunkBytes);
+
+  if (!queueRef.current) {
+    queueRef.current = createUploadQueue({
+      getToken: () => tokenRef.current,
+      getChunkBytes: () => chunkBytesRef.current,
+      canRun: (task) => isAuthenticatedRef.current && task.owner === profileIdRef.current,
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    const offChange = queue.on('change', () => setJobs(queue.tasks()));
+    const offSettled = queue.on('settled', (task) => {
+      if (task.status === 'done' || task.status === 'skipped') {
+        discardLocal(task);
+      }
+    });
+    return () => {
+      offChange();
+      offSettled();
+    };
+  }, [queue]);
+
+  useEffect(() => {
+    const activeId = queue.activeId();
+    const activeJob = activeId && queue.tasks().find((task) => task.id === activeId);
+    // Uploads use the active session, so another profile's job waits for its owner.
+    if (activeJob && activeJob.owner !== profileId) {
+      queue.stop(activeJob.id, 'queued');
+      return;
+    }
+    queue.pump();
+  }, [profileId, token, isAuthenticated]);
+
+  const enqueue = (
+    files: UploadSource[],
+    destination: { rootId: string; path: string },
+    policy: UploadConflictPolicy
+  ) =>
+    queue.add(
+      files.map((file) => {
+        let size = Number(file.size || 0);
+        if (!size) {
+          try {
+            size = new File(file.uri).size;
+          } catch {
+            size = 0;
+          }
+        }
+        return {
+          owner: profileId,
+          rootId: destination.rootId,
+          basePath: destination.path,
+          policy,
+          name: safeFileName(file.name),
+          localUri: file.uri,
+          size,
+        };
+      })
+    ).length;
+
+  const clearFinished = (rootId: string, dir: string) => {
+    const cleared = queue
+      .tasks()
+      .filter((job) => job.rootId === rootId && job.basePath === dir && isFinished(job));
+    cleared.forEach(discardLocal);
+    queue.remove(cleared.map((job) => job.id));
+    setJobs(queue.tasks());
+  };
+
+  const value = useMemo<UploadsContextValue>(
+    () => ({
+      jobs,
+      enqueue,
+      cancel: (id: string) => queue.stop(id, 'cancelled'),
+      retry: queue.retry,
+      clearFinished,
+    }),
+    [jobs, profileId]
+  );
+
+  return <UploadsContext.Provider value={value}>{children}</UploadsContext.Provider>;
+}
+
+export function useUploads() {
+  const ctx = useContext(UploadsContext);
+  if (!ctx) {
+    throw new Error('useUploads must be used within UploadsProvider');
+  }
+  return ctx;
+}